@@ -145,13 +145,13 @@ export default function defaultConfig({
               enabled: OPTIMIZER_ENABLED,
               runs: 1000000, // Max allowed by Etherscan verify
             },
-            outputSelection: OPTIMIZER_ENABLED
-              ? {}
-              : {
-                  '*': {
-                    '*': ['storageLayout'], // This is needed by Smock for mocking functions
-                  },
-                },
+            // Needed by Smock for mocking functions, and to check upgrades of the optimized production build.
+            // Output selection is not part of the contract metadata, so it doesn't change the bytecode.
+            outputSelection: {
+              '*': {
+                '*': ['storageLayout'],
+              },
+            },
           },
         },
       ],
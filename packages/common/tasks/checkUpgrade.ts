@@ -0,0 +1,36 @@
+import '@nomiclabs/hardhat-ethers'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { checkUpgrade, upgradeableDeployments } from '../testutil/storageLayout'
+
+export default task('checkUpgrade', 'Checks compiled implementations against the storage layout of deployed ones')
+  .addOptionalVariadicPositionalParam('deployments', 'Implementation deployment names (defaults to every _Impl)')
+  .addFlag('allowMissing', 'Skip implementations with no recorded storage layout instead of failing')
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const deploymentNames: string[] = args.deployments ?? (await upgradeableDeployments(HRE))
+
+    let errors = 0
+    for (const deploymentName of deploymentNames) {
+      const { contract, source, issues } = await checkUpgrade(HRE, deploymentName)
+      if (source === 'none') {
+        errors += args.allowMissing ? 0 : 1
+        console.log(
+          `${deploymentName} -> ${contract}: ${
+            args.allowMissing ? 'skipped' : 'MISSING'
+          }, no recorded storage layout, ` + 'snapshot one with seedStorageLayout',
+        )
+        continue
+      }
+      const failed = issues.some(({ severity }) => severity === 'error')
+      errors += failed ? 1 : 0
+
+      console.log(`${deploymentName} -> ${contract} (layout from ${source}): ${failed ? 'UNSAFE' : 'ok'}`)
+      issues.forEach(({ severity, variable, message }) => console.log(`  ${severity}: ${variable} ${message}`))
+    }
+
+    if (errors > 0) {
+      console.log(`${errors} of ${deploymentNames.length} implementations are missing layouts or changed unsafely`)
+      process.exitCode = 1
+    }
+    console.log('done.')
+  })
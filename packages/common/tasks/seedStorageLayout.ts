@@ -0,0 +1,16 @@
+import '@nomiclabs/hardhat-ethers'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { seedStorageLayout } from '../testutil/storageLayout'
+
+export default task(
+  'seedStorageLayout',
+  'Snapshots the storage layout of deployed implementations that did not record one, from their solc input',
+)
+  .addVariadicPositionalParam('deployments', 'Implementation deployment names')
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    for (const deploymentName of args.deployments as string[]) {
+      console.log(`${deploymentName}: snapshotted to ${await seedStorageLayout(HRE, deploymentName)}`)
+    }
+    console.log('done.')
+  })
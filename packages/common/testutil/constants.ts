@@ -1,5 +1,9 @@
 import { isArbitrum, isEthereum, isMainnet, isTestnet } from './network'
 
+export function getTimelockMinDelay(networkName: string): number {
+  return isTestnet(networkName) ? 60 : 2 * 24 * 60 * 60 // 2 days
+}
+
 export function getMultisigAddress(networkName: string): string | null {
   if (isMainnet(networkName)) {
     if (isEthereum(networkName)) return '0xe3010e0a0f1a8e8Ac58BF2Cd83B7FaCAee4821Af'
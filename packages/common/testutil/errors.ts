@@ -0,0 +1,179 @@
+import { BigNumber, BytesLike, utils } from 'ethers'
+
+// Solidity's builtin `Error(string)` and `Panic(uint256)` reverts
+const ERROR_SELECTOR = '0x08c379a0'
+const PANIC_SELECTOR = '0x4e487b71'
+const PANIC_REASONS: { [code: number]: string } = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division by zero',
+  0x21: 'invalid enum value',
+  0x31: 'pop on an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialized function',
+}
+
+// Decimals of the root fixed point types, keyed by their `internalType`
+const FIXED_DECIMALS: { [internalType: string]: number } = { UFixed18: 18, Fixed18: 18, UFixed6: 6 }
+
+type ErrorArgs = { [name: string]: string }
+
+/**
+ * Human explanations of well known errors, keyed by error name
+ */
+const EXPLANATIONS: { [name: string]: (args: ErrorArgs) => string } = {
+  PausedError: () => 'The protocol is paused',
+  NotAccountOrMultiInvokerError: ({ account, operator }) =>
+    `${operator} may not act for ${account}, only the account itself or the MultiInvoker may`,
+  CollateralAccountLiquidatingError: ({ account }) => `${account} is being liquidated until the next settlement`,
+  CollateralCantLiquidate: ({ totalMaintenance, totalCollateral }) =>
+    `The account is not liquidatable: its collateral ${totalCollateral} covers its maintenance ${totalMaintenance}`,
+  CollateralInsufficientCollateralError: () => 'The withdrawal would leave less collateral than the maintenance',
+  CollateralUnderLimitError: () => 'The remaining collateral would be below the minimum collateral',
+  CollateralZeroAddressError: () => 'The zero address cannot hold collateral',
+  ProductClosedError: () => 'The product is closed, positions can only be closed',
+  ProductDoubleSidedError: () => 'An account cannot hold maker and taker positions in the same product',
+  ProductInLiquidationError: () => 'The account is being liquidated until the next settlement',
+  ProductInsufficientCollateralError: () => 'The position needs more collateral than the account has',
+  ProductInsufficientLiquidityError: ({ socializationFactor }) =>
+    `Takers would exceed makers, leaving a socialization factor of ${socializationFactor}`,
+  ProductMakerOverLimitError: () => "The position would exceed the product's maker limit",
+  ProductOracleBootstrappingError: () => 'The product has no oracle version yet',
+  ProductOverClosedError: () => 'The close is larger than the open position',
+  IncentivizerInvalidProgramError: ({ product, programId }) => `Program ${programId} does not exist in ${product}`,
+  IncentivizerTooManyProgramsError: () => 'The product has the maximum number of active programs',
+  BalancedVaultDepositLimitExceeded: () => "The deposit would exceed the vault's deposit limit",
+  BalancedVaultRedemptionLimitExceeded: () => "The redemption exceeds the account's redeemable shares",
+  UFixed18UnderflowError: () => 'A value went negative where it must be unsigned',
+}
+
+export interface DecodedError {
+  name: string
+  signature: string
+  // Arguments formatted for display, with fixed point values as decimals
+  args: ErrorArgs
+  explanation?: string
+}
+
+/**
+ * Registry of custom errors by selector, for decoding revert data into readable errors
+ * @dev Arguments are formatted by their Solidity `internalType`, which only JSON ABIs (such as the static `abi` of
+ *      typechain factories) carry. Errors added from human-readable signatures print their raw values.
+ */
+export class ErrorRegistry {
+  private readonly errors: { [selector: string]: { fragment: utils.ErrorFragment; internalTypes: string[] } } = {}
+
+  /**
+   * Builds a registry from every typechain factory exported by `modules`, plus the human-readable `signatures`
+   */
+  public static fromTypechain(modules: { [name: string]: unknown }[], signatures: string[] = []): ErrorRegistry {
+    const registry = new ErrorRegistry()
+    modules.forEach(module =>
+      Object.values(module)
+        .filter((factory): factory is { abi: unknown[] } => isRecord(factory) && Array.isArray(factory.abi))
+        .forEach(factory => registry.add(factory.abi)),
+    )
+    registry.add(signatures)
+    return registry
+  }
+
+  // Adds the errors of a JSON or human-readable ABI, keeping the first error registered for each selector
+  public add(abi: ReadonlyArray<unknown>): void {
+    const jsonErrors = abi.filter(
+      (entry): entry is { type: string; inputs?: { internalType?: string }[] } =>
+        isRecord(entry) && entry.type === 'error',
+    )
+    const fragments = [
+      ...jsonErrors.map(entry => ({
+        fragment: utils.ErrorFragment.from(entry),
+        internalTypes: (entry.inputs ?? []).map(input => input.internalType ?? ''),
+      })),
+      ...abi
+        .filter((entry): entry is string => typeof entry === 'string' && entry.startsWith('error '))
+        .map(signature => ({ fragment: utils.ErrorFragment.from(signature), internalTypes: [] })),
+    ]
+    fragments.forEach(({ fragment, internalTypes }) => {
+      const selector = utils.Interface.getSighash(fragment)
+      if (!this.errors[selector]) this.errors[selector] = { fragment, internalTypes }
+    })
+  }
+
+  public get size(): number {
+    return Object.keys(this.errors).length
+  }
+
+  /**
+   * Decodes revert data, returning undefined if its selector is not registered
+   */
+  public decode(data: BytesLike): DecodedError | undefined {
+    const hex = utils.hexlify(data)
+    if (utils.hexDataLength(hex) < 4) return undefined
+    const selector = utils.hexDataSlice(hex, 0, 4)
+
+    if (selector === ERROR_SELECTOR) {
+      const [reason] = utils.defaultAbiCoder.decode(['string'], utils.hexDataSlice(hex, 4))
+      return { name: 'Error', signature: 'Error(string)', args: { reason }, explanation: reason }
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = utils.defaultAbiCoder.decode(['uint256'], utils.hexDataSlice(hex, 4))
+      const explanation = PANIC_REASONS[code.toNumber()] ?? 'unknown panic'
+      return { name: 'Panic', signature: 'Panic(uint256)', args: { code: code.toHexString() }, explanation }
+    }
+
+    const registered = this.errors[selector]
+    if (!registered) return undefined
+    const { fragment, internalTypes } = registered
+    const values = utils.defaultAbiCoder.decode(fragment.inputs, utils.hexDataSlice(hex, 4))
+    const args: ErrorArgs = {}
+    fragment.inputs.forEach((input, i) => (args[input.name || i] = formatArg(values[i], internalTypes[i])))
+    return {
+      name: fragment.name,
+      signature: fragment.format(),
+      args,
+      explanation: EXPLANATIONS[fragment.name]?.(args),
+    }
+  }
+
+  /**
+   * Finds the revert data in a thrown error, following the `error` chain providers wrap it in, and decodes it
+   */
+  public decodeFrom(error: unknown): DecodedError | undefined {
+    let cause = error
+    while (isRecord(cause)) {
+      const { data } = cause
+      if (typeof data === 'string' && utils.isHexString(data)) return this.decode(data)
+      if (isRecord(data) && typeof data.data === 'string' && utils.isHexString(data.data)) return this.decode(data.data)
+      cause = cause.error
+    }
+    return undefined
+  }
+
+  /**
+   * Describes a thrown error on one line, e.g. `ProductInsufficientLiquidityError(socializationFactor=0.5): ...`,
+   * falling back to its message when it carries no decodable revert data
+   */
+  public describe(error: unknown): string {
+    const decoded = this.decodeFrom(error)
+    if (decoded) return formatDecodedError(decoded)
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+export function formatDecodedError({ name, args, explanation }: DecodedError): string {
+  const formattedArgs = Object.entries(args)
+    .map(([argName, value]) => `${argName}=${value}`)
+    .join(', ')
+  return `${name}(${formattedArgs})${explanation ? `: ${explanation}` : ''}`
+}
+
+function formatArg(value: unknown, internalType = ''): string {
+  const decimals = FIXED_DECIMALS[internalType.replace(/^(struct |contract |enum )/, '')]
+  if (decimals !== undefined && BigNumber.isBigNumber(value)) return utils.formatUnits(value, decimals)
+  if (Array.isArray(value)) return `[${value.map(v => formatArg(v)).join(', ')}]`
+  return String(value)
+}
+
+function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null
+}
@@ -0,0 +1,247 @@
+import { BigNumber, BigNumberish, constants, utils } from 'ethers'
+
+const UFIXED6_TO_UFIXED18 = BigNumber.from(10).pow(12)
+
+/**
+ * Unsigned 18 decimal fixed point math matching `@equilibria/root`'s `UFixed18`
+ * @dev Values are the raw BigNumbers read from and passed to contracts. `mul` and `div` round down like the
+ *      Solidity type, while `mulOut` and `divOut` round up. Every operation throws where the Solidity type reverts.
+ *      root 0.2.0 has no `mulOut` or `divOut`, so those follow later root releases rather than deployed code.
+ */
+export class UFixed18Math {
+  public static BASE = constants.WeiPerEther
+  public static ZERO = constants.Zero
+  public static ONE = constants.WeiPerEther
+  public static MAX = constants.MaxUint256
+
+  // Converts the integer `value` into a fixed point number
+  public static from(value: BigNumberish): BigNumber {
+    return uint256(BigNumber.from(value).mul(this.BASE))
+  }
+
+  public static fromFixed18(value: BigNumber): BigNumber {
+    if (value.isNegative()) throw new Error(`UFixed18UnderflowError(${value})`)
+    return value
+  }
+
+  public static fromUFixed6(value: BigNumber): BigNumber {
+    return uint256(value.mul(UFIXED6_TO_UFIXED18))
+  }
+
+  public static add(a: BigNumber, b: BigNumber): BigNumber {
+    return uint256(a.add(b))
+  }
+
+  public static sub(a: BigNumber, b: BigNumber): BigNumber {
+    return uint256(a.sub(b))
+  }
+
+  public static mul(a: BigNumber, b: BigNumber): BigNumber {
+    return uint256(a.mul(b)).div(this.BASE)
+  }
+
+  public static mulOut(a: BigNumber, b: BigNumber): BigNumber {
+    return divOut(uint256(a.mul(b)), this.BASE)
+  }
+
+  public static div(a: BigNumber, b: BigNumber): BigNumber {
+    return uint256(a.mul(this.BASE)).div(b)
+  }
+
+  public static divOut(a: BigNumber, b: BigNumber): BigNumber {
+    return divOut(uint256(a.mul(this.BASE)), b)
+  }
+
+  // Divides without throwing on a zero divisor, returning `ONE` for 0/0 and `MAX` otherwise
+  public static unsafeDiv(a: BigNumber, b: BigNumber): BigNumber {
+    if (b.isZero()) return a.isZero() ? this.ONE : this.MAX
+    return this.div(a, b)
+  }
+
+  public static min(a: BigNumber, b: BigNumber): BigNumber {
+    return a.lt(b) ? a : b
+  }
+
+  public static max(a: BigNumber, b: BigNumber): BigNumber {
+    return a.gt(b) ? a : b
+  }
+
+  public static parse(value: string): BigNumber {
+    return uint256(utils.parseUnits(value, 18))
+  }
+
+  public static format(value: BigNumber): string {
+    return utils.formatUnits(value, 18)
+  }
+}
+
+/**
+ * Signed 18 decimal fixed point math matching `@equilibria/root`'s `Fixed18`
+ * @dev `mul` and `div` round towards zero like the Solidity type, while `mulOut` and `divOut` round away from zero.
+ *      As for UFixed18Math, `mulOut` and `divOut` have no root 0.2.0 counterpart.
+ */
+export class Fixed18Math {
+  public static BASE = constants.WeiPerEther
+  public static ZERO = constants.Zero
+  public static ONE = constants.WeiPerEther
+  public static NEG_ONE = constants.WeiPerEther.mul(-1)
+  public static MAX = constants.MaxInt256
+  public static MIN = constants.MinInt256
+
+  // Converts the integer `value` into a fixed point number
+  public static from(value: BigNumberish): BigNumber {
+    return int256(BigNumber.from(value).mul(this.BASE))
+  }
+
+  public static fromUFixed18(value: BigNumber): BigNumber {
+    if (value.gt(this.MAX)) throw new Error(`Fixed18OverflowError(${value})`)
+    return value
+  }
+
+  // Builds the number with the sign of `sign` and the unsigned magnitude `value`
+  public static fromSign(sign: number, value: BigNumber): BigNumber {
+    if (sign > 0) return this.fromUFixed18(value)
+    if (sign < 0) return this.fromUFixed18(value).mul(-1)
+    return this.ZERO
+  }
+
+  public static add(a: BigNumber, b: BigNumber): BigNumber {
+    return int256(a.add(b))
+  }
+
+  public static sub(a: BigNumber, b: BigNumber): BigNumber {
+    return int256(a.sub(b))
+  }
+
+  public static mul(a: BigNumber, b: BigNumber): BigNumber {
+    return int256(a.mul(b)).div(this.BASE)
+  }
+
+  public static mulOut(a: BigNumber, b: BigNumber): BigNumber {
+    return signedDivOut(int256(a.mul(b)), this.BASE)
+  }
+
+  public static div(a: BigNumber, b: BigNumber): BigNumber {
+    return int256(a.mul(this.BASE)).div(b)
+  }
+
+  public static divOut(a: BigNumber, b: BigNumber): BigNumber {
+    return signedDivOut(int256(a.mul(this.BASE)), b)
+  }
+
+  // Divides without throwing on a zero divisor, returning `ONE` for 0/0 and `MAX` or `MIN` by the sign of `a`
+  public static unsafeDiv(a: BigNumber, b: BigNumber): BigNumber {
+    if (!b.isZero()) return this.div(a, b)
+    if (a.isZero()) return this.ONE
+    return a.isNegative() ? this.MIN : this.MAX
+  }
+
+  public static sign(value: BigNumber): number {
+    if (value.isZero()) return 0
+    return value.isNegative() ? -1 : 1
+  }
+
+  // Unsigned magnitude of `value`
+  public static abs(value: BigNumber): BigNumber {
+    return value.abs()
+  }
+
+  public static min(a: BigNumber, b: BigNumber): BigNumber {
+    return a.lt(b) ? a : b
+  }
+
+  public static max(a: BigNumber, b: BigNumber): BigNumber {
+    return a.gt(b) ? a : b
+  }
+
+  public static parse(value: string): BigNumber {
+    return int256(utils.parseUnits(value, 18))
+  }
+
+  public static format(value: BigNumber): string {
+    return utils.formatUnits(value, 18)
+  }
+}
+
+/**
+ * Unsigned 6 decimal fixed point math for USDC amounts
+ * @dev Follows the `UFixed6` type of later root releases, root 0.2.0 has no 6 decimal type to check it against
+ */
+export class UFixed6Math {
+  public static BASE = BigNumber.from(10).pow(6)
+  public static ZERO = constants.Zero
+  public static ONE = BigNumber.from(10).pow(6)
+  public static MAX = constants.MaxUint256
+
+  // Converts the integer `value` into a fixed point number
+  public static from(value: BigNumberish): BigNumber {
+    return uint256(BigNumber.from(value).mul(this.BASE))
+  }
+
+  // Drops the 12 extra decimals of `value`, rounding down unless `roundOut` is set
+  public static fromUFixed18(value: BigNumber, roundOut = false): BigNumber {
+    return roundOut ? divOut(value, UFIXED6_TO_UFIXED18) : value.div(UFIXED6_TO_UFIXED18)
+  }
+
+  public static add(a: BigNumber, b: BigNumber): BigNumber {
+    return uint256(a.add(b))
+  }
+
+  public static sub(a: BigNumber, b: BigNumber): BigNumber {
+    return uint256(a.sub(b))
+  }
+
+  public static mul(a: BigNumber, b: BigNumber): BigNumber {
+    return uint256(a.mul(b)).div(this.BASE)
+  }
+
+  public static mulOut(a: BigNumber, b: BigNumber): BigNumber {
+    return divOut(uint256(a.mul(b)), this.BASE)
+  }
+
+  public static div(a: BigNumber, b: BigNumber): BigNumber {
+    return uint256(a.mul(this.BASE)).div(b)
+  }
+
+  public static divOut(a: BigNumber, b: BigNumber): BigNumber {
+    return divOut(uint256(a.mul(this.BASE)), b)
+  }
+
+  public static min(a: BigNumber, b: BigNumber): BigNumber {
+    return a.lt(b) ? a : b
+  }
+
+  public static max(a: BigNumber, b: BigNumber): BigNumber {
+    return a.gt(b) ? a : b
+  }
+
+  public static parse(value: string): BigNumber {
+    return uint256(utils.parseUnits(value, 6))
+  }
+
+  public static format(value: BigNumber): string {
+    return utils.formatUnits(value, 6)
+  }
+}
+
+// Checked arithmetic: Solidity reverts on any intermediate value outside of the type's range
+function uint256(value: BigNumber): BigNumber {
+  if (value.isNegative()) throw new Error(`uint256 underflow: ${value}`)
+  if (value.gt(constants.MaxUint256)) throw new Error(`uint256 overflow: ${value}`)
+  return value
+}
+
+function int256(value: BigNumber): BigNumber {
+  if (value.lt(constants.MinInt256) || value.gt(constants.MaxInt256)) throw new Error(`int256 overflow: ${value}`)
+  return value
+}
+
+function divOut(a: BigNumber, b: BigNumber): BigNumber {
+  if (b.isZero()) throw new Error('division by zero')
+  return a.isZero() ? a : a.sub(1).div(b).add(1)
+}
+
+function signedDivOut(a: BigNumber, b: BigNumber): BigNumber {
+  const quotient = divOut(a.abs(), b.abs())
+  return a.isNegative() !== b.isNegative() ? quotient.mul(-1) : quotient
+}
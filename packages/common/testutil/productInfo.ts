@@ -0,0 +1,177 @@
+import { BigNumber, BigNumberish, BytesLike, constants, Contract, providers, utils } from 'ethers'
+
+type Awaitable<T> = T | Promise<T>
+
+/**
+ * Structural view of a typechain `IProduct.ProductInfoStruct`, so that every package's generated type is accepted
+ */
+export interface ProductInfo {
+  name: Awaitable<string>
+  symbol: Awaitable<string>
+  payoffDefinition: {
+    payoffType: Awaitable<BigNumberish>
+    payoffDirection: Awaitable<BigNumberish>
+    data: Awaitable<BytesLike>
+  }
+  oracle: Awaitable<string>
+  maintenance: Awaitable<BigNumberish>
+  fundingFee: Awaitable<BigNumberish>
+  makerFee: Awaitable<BigNumberish>
+  takerFee: Awaitable<BigNumberish>
+  positionFee: Awaitable<BigNumberish>
+  makerLimit: Awaitable<BigNumberish>
+  utilizationCurve: {
+    minRate: Awaitable<BigNumberish>
+    maxRate: Awaitable<BigNumberish>
+    targetRate: Awaitable<BigNumberish>
+    targetUtilization: Awaitable<BigNumberish>
+  }
+}
+
+export interface ProductInfoIssue {
+  field: string
+  message: string
+}
+
+export interface ProductInfoValidation {
+  errors: ProductInfoIssue[]
+  warnings: ProductInfoIssue[]
+}
+
+export interface ProductInfoValidationOptions {
+  // Provider used to check that the oracle and payoff provider are deployed contracts
+  provider?: providers.Provider
+  // Controller the product will be created by, used to check the Controller-level bounds
+  controller?: {
+    minFundingFee(): Promise<BigNumber>
+  }
+}
+
+const PAYOFF_TYPE_PASSTHROUGH = 0
+const PAYOFF_TYPE_CONTRACT = 1
+const PAYOFF_DATA_LENGTH = 30
+
+const ORACLE_PROVIDER_ABI = [
+  'function currentVersion() view returns (tuple(uint256 version, uint256 timestamp, int256 price))',
+  'function atVersion(uint256 oracleVersion) view returns (tuple(uint256 version, uint256 timestamp, int256 price))',
+]
+
+/**
+ * Checks `productInfo` against the invariants enforced by `Controller.createProduct` and the product's
+ * initializer, as well as values that would be accepted on-chain but are most likely a mistake
+ * @dev Checks that require chain state are skipped unless `provider` and `controller` are supplied
+ */
+export async function validateProductInfo(
+  productInfo: ProductInfo,
+  { provider, controller }: ProductInfoValidationOptions = {},
+): Promise<ProductInfoValidation> {
+  const errors: ProductInfoIssue[] = []
+  const warnings: ProductInfoIssue[] = []
+  const error = (field: string, message: string) => errors.push({ field, message })
+  const warning = (field: string, message: string) => warnings.push({ field, message })
+
+  const [name, symbol, oracle] = await Promise.all([productInfo.name, productInfo.symbol, productInfo.oracle])
+  if (name.length === 0) error('name', 'name is empty')
+  if (symbol.length === 0) error('symbol', 'symbol is empty')
+
+  // Params
+  const [maintenance, fundingFee, makerFee, takerFee, positionFee, makerLimit] = await Promise.all(
+    [
+      productInfo.maintenance,
+      productInfo.fundingFee,
+      productInfo.makerFee,
+      productInfo.takerFee,
+      productInfo.positionFee,
+      productInfo.makerLimit,
+    ].map(async value => BigNumber.from(await value)),
+  )
+  const fees = { fundingFee, makerFee, takerFee, positionFee }
+  Object.entries(fees).forEach(([field, value]) => {
+    if (value.isNegative() || value.gt(constants.WeiPerEther)) error(field, `${field} must be between 0 and 1`)
+  })
+  if (maintenance.isZero()) warning('maintenance', 'maintenance is zero, positions can never be liquidated')
+  if (maintenance.gt(constants.WeiPerEther)) warning('maintenance', 'maintenance is above 100%')
+  if (makerLimit.isZero()) warning('makerLimit', 'makerLimit is zero, no maker positions can be opened')
+
+  // Utilization curve
+  const [minRate, maxRate, targetRate, targetUtilization] = await Promise.all(
+    [
+      productInfo.utilizationCurve.minRate,
+      productInfo.utilizationCurve.maxRate,
+      productInfo.utilizationCurve.targetRate,
+      productInfo.utilizationCurve.targetUtilization,
+    ].map(async value => BigNumber.from(await value)),
+  )
+  if (minRate.gt(targetRate)) error('utilizationCurve.minRate', 'minRate is above targetRate')
+  if (targetRate.gt(maxRate)) error('utilizationCurve.targetRate', 'targetRate is above maxRate')
+  if (targetUtilization.isNegative() || targetUtilization.gte(constants.WeiPerEther))
+    error('utilizationCurve.targetUtilization', 'targetUtilization must be at least 0 and below 1')
+
+  // Payoff definition
+  const [payoffType, payoffDirection, data] = await Promise.all([
+    productInfo.payoffDefinition.payoffType,
+    productInfo.payoffDefinition.payoffDirection,
+    productInfo.payoffDefinition.data,
+  ])
+  const type = BigNumber.from(payoffType).toNumber()
+  const direction = BigNumber.from(payoffDirection).toNumber()
+  const dataBytes = utils.isBytesLike(data) ? utils.arrayify(data) : undefined
+  if (type !== PAYOFF_TYPE_PASSTHROUGH && type !== PAYOFF_TYPE_CONTRACT)
+    error('payoffDefinition.payoffType', `unknown payoffType ${type}`)
+  if (direction !== 0 && direction !== 1)
+    error('payoffDefinition.payoffDirection', `unknown payoffDirection ${direction}`)
+  if (dataBytes === undefined || dataBytes.length !== PAYOFF_DATA_LENGTH) {
+    error('payoffDefinition.data', `data must be ${PAYOFF_DATA_LENGTH} bytes`)
+  } else if (type === PAYOFF_TYPE_PASSTHROUGH && dataBytes.some(byte => byte !== 0)) {
+    error('payoffDefinition.data', 'data must be empty for a passthrough payoff')
+  } else if (type === PAYOFF_TYPE_CONTRACT) {
+    const payoffProvider = utils.getAddress(utils.hexDataSlice(dataBytes, PAYOFF_DATA_LENGTH - 20))
+    if (provider && (await provider.getCode(payoffProvider)) === '0x')
+      error('payoffDefinition.data', `payoff provider ${payoffProvider} is not a contract`)
+  }
+
+  // Oracle
+  if (!utils.isAddress(oracle) || oracle === constants.AddressZero) {
+    error('oracle', `oracle ${oracle} is not a valid address`)
+  } else if (provider) {
+    if ((await provider.getCode(oracle)) === '0x') {
+      error('oracle', `oracle ${oracle} is not a contract`)
+    } else {
+      try {
+        const oracleProvider = new Contract(oracle, ORACLE_PROVIDER_ABI, provider)
+        const currentVersion = await oracleProvider.currentVersion()
+        await oracleProvider.atVersion(currentVersion.version)
+      } catch {
+        error('oracle', `oracle ${oracle} does not implement IOracleProvider`)
+      }
+    }
+  }
+
+  // Controller
+  if (controller) {
+    const minFundingFee = await controller.minFundingFee()
+    if (fundingFee.lt(minFundingFee))
+      warning(
+        'fundingFee',
+        `fundingFee is below the Controller's minFundingFee of ${utils.formatEther(
+          minFundingFee,
+        )} and will be raised to it`,
+      )
+  }
+
+  return { errors, warnings }
+}
+
+/**
+ * Validates `productInfo`, logging any warnings and throwing if it has errors
+ */
+export async function assertValidProductInfo(
+  productInfo: ProductInfo,
+  options: ProductInfoValidationOptions = {},
+): Promise<void> {
+  const { errors, warnings } = await validateProductInfo(productInfo, options)
+  const format = ({ field, message }: ProductInfoIssue) => `  ${field}: ${message}`
+
+  if (warnings.length > 0) console.log(`ProductInfo warnings:\n${warnings.map(format).join('\n')}`)
+  if (errors.length > 0) throw new Error(`Invalid ProductInfo:\n${errors.map(format).join('\n')}`)
+}
@@ -0,0 +1,268 @@
+import { existsSync } from 'fs'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import {
+  TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD,
+  TASK_COMPILE_SOLIDITY_RUN_SOLC,
+  TASK_COMPILE_SOLIDITY_RUN_SOLCJS,
+} from 'hardhat/builtin-tasks/task-names'
+import { HardhatRuntimeEnvironment, SolcBuild } from 'hardhat/types'
+import { Deployment } from 'hardhat-deploy/types'
+import 'hardhat-deploy'
+
+export interface StorageLayoutItem {
+  label: string
+  offset: number
+  slot: string
+  type: string
+}
+
+export interface StorageLayoutType {
+  encoding: string
+  label: string
+  numberOfBytes: string
+  key?: string
+  value?: string
+  base?: string
+  members?: StorageLayoutItem[]
+}
+
+export interface StorageLayout {
+  storage: StorageLayoutItem[]
+  types: { [id: string]: StorageLayoutType } | null
+}
+
+export interface StorageLayoutIssue {
+  severity: 'error' | 'warning'
+  variable: string
+  message: string
+}
+
+export interface UpgradeCheck {
+  deployment: string
+  contract: string
+  // Where the deployed layout was read from, 'none' for implementations deployed before layouts were recorded
+  source: 'deployment' | 'snapshot' | 'none'
+  issues: StorageLayoutIssue[]
+}
+
+interface StorageLayoutSnapshot {
+  address: string
+  contract: string
+  storageLayout: StorageLayout
+}
+
+/**
+ * Canonical form of a storage type, independent of the AST ids embedded in the compiler's type identifiers
+ */
+interface CanonicalType {
+  label: string
+  encoding: string
+  numberOfBytes: string
+  key?: CanonicalType
+  value?: CanonicalType
+  base?: CanonicalType
+  members?: { label: string; slot: string; offset: number; type: CanonicalType }[]
+}
+
+function canonicalType(id: string, layout: StorageLayout): CanonicalType {
+  const type = layout.types?.[id]
+  if (type === undefined) return { label: id, encoding: 'unknown', numberOfBytes: '0' }
+
+  return {
+    label: type.label,
+    encoding: type.encoding,
+    numberOfBytes: type.numberOfBytes,
+    key: type.key ? canonicalType(type.key, layout) : undefined,
+    value: type.value ? canonicalType(type.value, layout) : undefined,
+    base: type.base ? canonicalType(type.base, layout) : undefined,
+    members: type.members?.map(member => ({
+      label: member.label,
+      slot: member.slot,
+      offset: member.offset,
+      type: canonicalType(member.type, layout),
+    })),
+  }
+}
+
+/**
+ * Returns why `compiled` can not replace `deployed` in place, or undefined if it can
+ * @dev Structs may only be extended with new members, since each member keeps its slot
+ */
+function typeChange(deployed: CanonicalType, compiled: CanonicalType, allowGrowth: boolean): string | undefined {
+  if (deployed.encoding !== compiled.encoding || deployed.label !== compiled.label)
+    return `${deployed.label} became ${compiled.label}`
+  if (deployed.numberOfBytes !== compiled.numberOfBytes && !(allowGrowth && deployed.members))
+    return `${deployed.label} changed size from ${deployed.numberOfBytes} to ${compiled.numberOfBytes} bytes`
+
+  for (const field of ['key', 'value', 'base'] as const) {
+    const deployedField = deployed[field]
+    const compiledField = compiled[field]
+    if (deployedField && compiledField) {
+      // Members of structs stored behind a mapping or dynamic array do not affect any other slot
+      const change = typeChange(deployedField, compiledField, field !== 'base' || deployed.encoding === 'dynamic_array')
+      if (change) return change
+    }
+  }
+
+  const compiledMembers = compiled.members ?? []
+  const deployedMembers = deployed.members ?? []
+  for (let i = 0; i < deployedMembers.length; i++) {
+    const member = deployedMembers[i]
+    const compiledMember = compiledMembers[i]
+    if (compiledMember === undefined) return `member ${member.label} of ${deployed.label} was removed`
+    if (compiledMember.label !== member.label || compiledMember.slot !== member.slot)
+      return `member ${member.label} of ${deployed.label} was reordered or renamed`
+    const change = typeChange(member.type, compiledMember.type, false)
+    if (change) return `member ${member.label} of ${deployed.label}: ${change}`
+  }
+  return undefined
+}
+
+/**
+ * Compares the storage layout of a deployed implementation with the one it is being upgraded to
+ * @dev Removed, reordered and retyped variables are errors. Renamed variables are only warnings, since the slot
+ *      keeps its meaning as long as its type is unchanged.
+ */
+export function compareStorageLayouts(deployed: StorageLayout, compiled: StorageLayout): StorageLayoutIssue[] {
+  const issues: StorageLayoutIssue[] = []
+  const position = (item: StorageLayoutItem) => `slot ${item.slot} offset ${item.offset}`
+
+  deployed.storage.forEach((item, i) => {
+    const error = (message: string) => issues.push({ severity: 'error', variable: item.label, message })
+    const atPosition = compiled.storage.find(
+      compiledItem => compiledItem.slot === item.slot && compiledItem.offset === item.offset,
+    )
+    const byLabel = compiled.storage.find(compiledItem => compiledItem.label === item.label)
+
+    if (atPosition === undefined) {
+      if (byLabel) error(`moved from ${position(item)} to ${position(byLabel)}`)
+      else error(`was removed from ${position(item)}`)
+      return
+    }
+    if (atPosition.label !== item.label) {
+      if (byLabel) {
+        error(`moved from ${position(item)} to ${position(byLabel)}`)
+        return
+      }
+      issues.push({
+        severity: 'warning',
+        variable: item.label,
+        message: `was renamed to ${atPosition.label} at ${position(item)}`,
+      })
+    }
+
+    const isLast = i === deployed.storage.length - 1
+    const change = typeChange(canonicalType(item.type, deployed), canonicalType(atPosition.type, compiled), isLast)
+    if (change) error(`was retyped at ${position(item)}: ${change}`)
+  })
+
+  return issues
+}
+
+function compilationTarget(deployment: Deployment): [string, string] | undefined {
+  const target: { [sourceName: string]: string } | undefined = JSON.parse(deployment.metadata ?? '{}').settings
+    ?.compilationTarget
+  return target ? Object.entries(target)[0] : undefined
+}
+
+/**
+ * Lists the `_Impl` deployments of the current network whose contract is compiled in this package
+ */
+export async function upgradeableDeployments(HRE: HardhatRuntimeEnvironment): Promise<string[]> {
+  const names: string[] = []
+  for (const [name, deployment] of Object.entries(await HRE.deployments.all())) {
+    const target = compilationTarget(deployment)
+    if (name.endsWith('_Impl') && target && (await HRE.artifacts.artifactExists(target.join(':')))) names.push(name)
+  }
+  return names.sort()
+}
+
+/**
+ * Checks that the compiled contract of `deploymentName` can safely replace its deployed implementation
+ * @dev The deployed layout is read from the deployment, or from the layout snapshot stored next to the network's
+ *      deployments when the deployment did not record one. Every layout read from a deployment is snapshotted.
+ */
+export async function checkUpgrade(HRE: HardhatRuntimeEnvironment, deploymentName: string): Promise<UpgradeCheck> {
+  const { deployments, artifacts } = HRE
+  const deployment = await deployments.get(deploymentName)
+  const [sourceName, contractName] = compilationTarget(deployment) ?? []
+  if (sourceName === undefined) throw `${deploymentName} has no compilation metadata`
+  const contract = `${sourceName}:${contractName}`
+  const buildInfo = await artifacts.getBuildInfo(contract)
+  const compiled = (
+    buildInfo?.output.contracts[sourceName]?.[contractName] as { storageLayout?: StorageLayout } | undefined
+  )?.storageLayout
+  if (compiled === undefined) throw `No compiled storage layout for ${contract}, recompile with --force`
+
+  const snapshotPath = storageLayoutSnapshotPath(HRE, deploymentName)
+  let deployed = deployment.storageLayout as StorageLayout | undefined
+  let source: UpgradeCheck['source'] = 'deployment'
+  if (deployed) {
+    const snapshot: StorageLayoutSnapshot = { address: deployment.address, contract, storageLayout: deployed }
+    await mkdir(join(snapshotPath, '..'), { recursive: true })
+    await writeFile(snapshotPath, JSON.stringify(snapshot, null, 2))
+  } else if (existsSync(snapshotPath)) {
+    const snapshot: StorageLayoutSnapshot = JSON.parse(await readFile(snapshotPath, 'utf-8'))
+    if (snapshot.address.toLowerCase() !== deployment.address.toLowerCase())
+      throw `Storage layout snapshot of ${deploymentName} is for ${snapshot.address}, not ${deployment.address}`
+    deployed = snapshot.storageLayout
+    source = 'snapshot'
+  } else {
+    return { deployment: deploymentName, contract, source: 'none', issues: [] }
+  }
+
+  return { deployment: deploymentName, contract, source, issues: compareStorageLayouts(deployed, compiled) }
+}
+
+/**
+ * Snapshots the storage layout of a deployment that did not record one, by recompiling the exact solc input it was
+ * deployed from with storage layouts selected
+ * @dev The input is read from the network's `solcInputs`, and the recompiled bytecode must match the deployed one
+ * @return the path of the snapshot
+ */
+export async function seedStorageLayout(HRE: HardhatRuntimeEnvironment, deploymentName: string): Promise<string> {
+  const { deployments, config, run } = HRE
+  const deployment = await deployments.get(deploymentName)
+  const [sourceName, contractName] = compilationTarget(deployment) ?? []
+  if (sourceName === undefined) throw `${deploymentName} has no compilation metadata`
+  if (deployment.solcInputHash === undefined) throw `${deploymentName} has no recorded solc input`
+
+  const inputPath = join(
+    config.paths.deployments,
+    deployments.getNetworkName(),
+    'solcInputs',
+    `${deployment.solcInputHash}.json`,
+  )
+  if (!existsSync(inputPath)) throw `Missing solc input ${inputPath} of ${deploymentName}`
+  const input = JSON.parse(await readFile(inputPath, 'utf-8'))
+  input.settings.outputSelection = {
+    [sourceName]: { [contractName]: ['storageLayout', 'evm.deployedBytecode.object'] },
+  }
+
+  // e.g. 0.8.17+commit.8df45f5f
+  const solcVersion: string = JSON.parse(deployment.metadata ?? '{}').compiler.version.split('+')[0]
+  const solcBuild: SolcBuild = await run(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, { quiet: true, solcVersion })
+  const output = solcBuild.isSolcJs
+    ? await run(TASK_COMPILE_SOLIDITY_RUN_SOLCJS, { input, solcJsPath: solcBuild.compilerPath })
+    : await run(TASK_COMPILE_SOLIDITY_RUN_SOLC, { input, solcPath: solcBuild.compilerPath })
+  const compiled = output.contracts?.[sourceName]?.[contractName]
+  if (compiled === undefined) throw `Recompiling ${deploymentName} failed: ${JSON.stringify(output.errors)}`
+  if (`0x${compiled.evm.deployedBytecode.object}`.toLowerCase() !== deployment.deployedBytecode?.toLowerCase())
+    throw `Recompiling ${deploymentName} does not reproduce its deployed bytecode`
+
+  const snapshotPath = storageLayoutSnapshotPath(HRE, deploymentName)
+  const snapshot: StorageLayoutSnapshot = {
+    address: deployment.address,
+    contract: `${sourceName}:${contractName}`,
+    storageLayout: compiled.storageLayout,
+  }
+  await mkdir(join(snapshotPath, '..'), { recursive: true })
+  await writeFile(snapshotPath, JSON.stringify(snapshot, null, 2))
+  return snapshotPath
+}
+
+function storageLayoutSnapshotPath(HRE: HardhatRuntimeEnvironment, deploymentName: string): string {
+  const { config, deployments } = HRE
+  return join(config.paths.deployments, deployments.getNetworkName(), 'storageLayouts', `${deploymentName}.json`)
+}
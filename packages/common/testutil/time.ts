@@ -25,6 +25,12 @@ export async function increase(duration: number): Promise<void> {
 }
 
 export async function reset(config: HardhatConfig): Promise<void> {
+  // Without forking, reset to an empty local chain
+  if (!config.networks?.hardhat?.forking?.enabled) {
+    await ethers.provider.send('hardhat_reset', [])
+    return
+  }
+
   await ethers.provider.send('hardhat_reset', [
     {
       forking: {
@@ -1,5 +1,6 @@
-import { BigNumber, BigNumberish, constants } from 'ethers'
+import { BigNumber, BigNumberish } from 'ethers'
 import { expect } from 'chai'
+import { Fixed18Math } from './fixed'
 
 export interface Position {
   maker: BigNumberish
@@ -68,14 +69,17 @@ export function createPayoffDefinition({
   return definition
 }
 
+/**
+ * @dev Kept for existing tests, see `Fixed18Math` in `./fixed` for the full library
+ */
 export class Big18Math {
-  public static BASE = constants.WeiPerEther
+  public static BASE = Fixed18Math.BASE
 
   public static mul(a: BigNumber, b: BigNumber): BigNumber {
-    return a.mul(b).div(this.BASE)
+    return Fixed18Math.mul(a, b)
   }
 
   public static div(a: BigNumber, b: BigNumber): BigNumber {
-    return a.mul(this.BASE).div(b)
+    return Fixed18Math.div(a, b)
   }
 }
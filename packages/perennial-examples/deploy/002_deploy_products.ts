@@ -0,0 +1,11 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { DeployFunction } from 'hardhat-deploy/types'
+import { deployProductSpecs } from '../util'
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  // Comma separated spec tags, e.g. PRODUCT_TAGS=Squeeth,LongEther, to deploy only some of the products
+  await deployProductSpecs(hre, process.env.PRODUCT_TAGS ? process.env.PRODUCT_TAGS.split(',') : undefined)
+}
+
+export default func
+func.tags = ['Products']
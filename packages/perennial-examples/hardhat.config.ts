@@ -4,6 +4,8 @@ import defaultConfig from '../common/hardhat.default.config'
 const eqPerennialDir = dirname(require.resolve('@equilibria/perennial/package.json'))
 const eqPerennialOracleDir = dirname(require.resolve('@equilibria/perennial-oracle/package.json'))
 
+import './tasks'
+
 const config = defaultConfig({
   externalDeployments: {
     kovan: [`${eqPerennialDir}/deployments/kovan`, `${eqPerennialOracleDir}/deployments/kovan`],
@@ -24,7 +26,10 @@ const config = defaultConfig({
     hardhat: [`${eqPerennialDir}/deployments/mainnet`, `${eqPerennialOracleDir}/deployments/mainnet`],
     localhost: [`${eqPerennialDir}/deployments/localhost`, `${eqPerennialOracleDir}/deployments/localhost`],
   },
-  dependencyPaths: ['@equilibria/perennial/contracts/interfaces/IController.sol'],
+  dependencyPaths: [
+    '@equilibria/perennial/contracts/interfaces/IController.sol',
+    '@equilibria/perennial/contracts/interfaces/IPerennialLens.sol',
+  ],
 })
 
 export default config
@@ -0,0 +1,71 @@
+import '@nomiclabs/hardhat-ethers'
+import 'hardhat-deploy'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { buildProductInfo, loadProductSpecs, productDeploymentName } from '../util/productSpecs'
+import { applyProductDiffs, encodeProductDiffs, getProductDrift } from '../util/productDiff'
+import { describeError } from '../util/errors'
+
+export default task('diffProduct', 'Compares deployed products against their specs')
+  .addOptionalPositionalParam('product', 'Product deployment name, e.g. Product_ETH_Long (defaults to every spec)')
+  .addFlag(
+    'apply',
+    'Send the parameter updates needed to match the spec, or print their calldata if the deployer is not the owner',
+  )
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const {
+      ethers,
+      network,
+      getNamedAccounts,
+      deployments: { get, getOrNull },
+    } = HRE
+    const { deployer } = await getNamedAccounts()
+    const lens = await ethers.getContractAt('IPerennialLens', (await get('PerennialLens_V01')).address)
+    const controller = await ethers.getContractAt('IController', (await get('Controller_Proxy')).address)
+
+    const specs = loadProductSpecs(network.name).filter(
+      spec => args.product === undefined || productDeploymentName(spec) === args.product,
+    )
+    if (specs.length === 0) throw `No product spec found for ${args.product}`
+
+    for (const spec of specs) {
+      const deploymentName = productDeploymentName(spec)
+      const deployment = await getOrNull(deploymentName)
+      if (deployment == null) {
+        console.log(`${deploymentName}: not deployed... skipping`)
+        continue
+      }
+
+      const product = await ethers.getContractAt('IProduct', deployment.address)
+      const expected = await buildProductInfo(spec, async name => (await get(name)).address)
+      const { diffs, pendingFeeUpdates, pendingFeeVersion } = await getProductDrift(lens, product, expected)
+
+      console.log(`${deploymentName} at ${product.address}: ${diffs.length === 0 ? 'matches spec' : 'drifted'}`)
+      diffs.forEach(({ field, expected, actual, updatable, pending }) => {
+        const note = pending ? ' (pending update)' : updatable ? '' : ' (not updatable)'
+        console.log(`  ${field}: ${actual} -> ${expected}${note}`)
+      })
+      if (pendingFeeUpdates.length > 0) {
+        console.log(`  pending fee updates, effective at version ${pendingFeeVersion?.toString()}:`)
+        pendingFeeUpdates.forEach(({ field, value }) => console.log(`    ${field}: ${ethers.utils.formatEther(value)}`))
+      }
+
+      if (!args.apply || !diffs.some(diff => diff.updatable && !diff.pending)) continue
+
+      const owner = await controller['owner(address)'](product.address)
+      if (owner !== deployer) {
+        console.log(`  not the product owner, send from ${owner}:`)
+        const calls = await encodeProductDiffs(product, expected, diffs)
+        calls.forEach(({ target, data }) => console.log(`    target: ${target}\n    data: ${data}`))
+        continue
+      }
+      try {
+        const hashes = await applyProductDiffs(product.connect(await ethers.getSigner(deployer)), expected, diffs)
+        hashes.forEach(hash => console.log(`  update tx: ${hash}`))
+      } catch (e) {
+        throw `Updating ${deploymentName} failed: ${describeError(e)}`
+      }
+    }
+
+    console.log('done.')
+  })
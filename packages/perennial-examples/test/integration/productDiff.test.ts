@@ -0,0 +1,96 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import HRE from 'hardhat'
+import { utils } from 'ethers'
+
+import { impersonate } from '../../../common/testutil'
+import {
+  ICollateral__factory,
+  IController,
+  IController__factory,
+  IERC20__factory,
+  IPerennialLens,
+  IPerennialLens__factory,
+  IProduct,
+  IProduct__factory,
+} from '../../types/generated'
+import {
+  applyProductDiffs,
+  buildProductInfo,
+  encodeProductDiffs,
+  getProductDrift,
+  loadProductSpecs,
+  ProductSpec,
+} from '../../util'
+
+const { ethers, deployments } = HRE
+
+const DSU_HOLDER = '0x0B663CeaCEF01f2f88EB7451C70Aa069f19dB997'
+
+describe('Product diff against a live product', () => {
+  let owner: SignerWithAddress
+  let user: SignerWithAddress
+  let controller: IController
+  let lens: IPerennialLens
+  let product: IProduct
+  let expected: IProduct.ProductInfoStruct
+
+  beforeEach(async () => {
+    ;[owner, user] = await ethers.getSigners()
+    controller = IController__factory.connect((await deployments.get('Controller_Proxy')).address, owner)
+    lens = IPerennialLens__factory.connect((await deployments.get('PerennialLens_V01')).address, owner)
+
+    const spec = loadProductSpecs('mainnet').find(spec => spec.symbol === 'ETH' && spec.payoff.direction === 'long')
+    expected = await buildProductInfo(spec as ProductSpec, async name => (await deployments.get(name)).address)
+
+    // Creates the product from a fresh coordinator, with parameters that have drifted from its spec
+    const coordinatorId = await controller.callStatic.createCoordinator()
+    await controller.createCoordinator()
+    const drifted = { ...expected, makerFee: utils.parseEther('0.01'), makerLimit: utils.parseEther('1') }
+    const productAddress = await controller.callStatic.createProduct(coordinatorId, drifted)
+    await controller.createProduct(coordinatorId, drifted)
+    product = IProduct__factory.connect(productAddress, owner)
+  })
+
+  it('applies the updates from the product owner', async () => {
+    const { diffs, pendingFeeUpdates } = await getProductDrift(lens, product, expected)
+    expect(diffs.map(({ field }) => field)).to.deep.equal(['makerFee', 'makerLimit'])
+    expect(pendingFeeUpdates).to.deep.equal([])
+
+    const hashes = await applyProductDiffs(product, expected, diffs)
+    expect(hashes).to.have.length(2)
+    expect((await getProductDrift(lens, product, expected)).diffs).to.deep.equal([])
+  })
+
+  it('encodes the updates for an owner that is not the sender', async () => {
+    const { diffs } = await getProductDrift(lens, product, expected)
+    const calls = await encodeProductDiffs(product.connect(user), expected, diffs)
+    expect(calls.map(({ target }) => target)).to.deep.equal([product.address, product.address])
+
+    await expect(user.sendTransaction({ to: calls[0].target, data: calls[0].data })).to.be.reverted
+    for (const { target, data } of calls) await owner.sendTransaction({ to: target, data })
+    expect((await getProductDrift(lens, product, expected)).diffs).to.deep.equal([])
+  })
+
+  it('reads fee updates left pending by pending positions', async () => {
+    const collateral = ICollateral__factory.connect(await controller.collateral(), user)
+    const dsu = IERC20__factory.connect(await collateral.token(), user)
+    const dsuHolder = await impersonate.impersonateWithBalance(DSU_HOLDER, utils.parseEther('10'))
+    await dsu.connect(dsuHolder).transfer(user.address, utils.parseEther('1000'))
+    await dsu.approve(collateral.address, utils.parseEther('1000'))
+    await collateral.depositTo(user.address, product.address, utils.parseEther('1000'))
+    await product.connect(user).openMake(utils.parseEther('0.001'))
+
+    const drift = await getProductDrift(lens, product, expected)
+    await applyProductDiffs(product, expected, drift.diffs)
+
+    const { diffs, pendingFeeUpdates, pendingFeeVersion } = await getProductDrift(lens, product, expected)
+    const pre = await lens.callStatic.pre(product.address)
+    expect(pendingFeeUpdates).to.deep.equal([{ field: 'makerFee', value: await expected.makerFee }])
+    expect(pendingFeeVersion).to.equal(pre.oracleVersion.add(1))
+    expect(diffs).to.deep.equal([
+      { field: 'makerFee', expected: '0.0', actual: '0.01', updatable: true, pending: true },
+    ])
+    expect(await encodeProductDiffs(product, expected, diffs)).to.deep.equal([])
+  })
+})
@@ -0,0 +1,124 @@
+import { smock, FakeContract } from '@defi-wonderland/smock'
+import { BigNumber } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect, use } from 'chai'
+import HRE from 'hardhat'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { Deployment, DeployOptions } from 'hardhat-deploy/types'
+
+import {
+  IController,
+  IController__factory,
+  IOracleProvider,
+  IOracleProvider__factory,
+  IProduct,
+  Squeeth__factory,
+} from '../../../types/generated'
+import { deployProductSpecs } from '../../../util'
+
+const { ethers } = HRE
+use(smock.matchers)
+
+const PRODUCT = '0x0000000000000000000000000000000000000003'
+
+describe('Product spec deploy', () => {
+  let owner: SignerWithAddress
+  let controller: FakeContract<IController>
+  let oracle: FakeContract<IOracleProvider>
+  let saved: { [name: string]: Deployment }
+  let hre: HardhatRuntimeEnvironment
+
+  beforeEach(async () => {
+    ;[owner] = await ethers.getSigners()
+    controller = await smock.fake<IController>(IController__factory.abi)
+    oracle = await smock.fake<IOracleProvider>(IOracleProvider__factory.abi)
+    controller['owner(uint256)'].returns(owner.address)
+    controller.createProduct.returns(PRODUCT)
+
+    saved = {
+      Controller_Proxy: { address: controller.address, abi: [] },
+      Product_Impl: { address: PRODUCT, abi: [] },
+      ChainlinkOracle_ETH: { address: oracle.address, abi: [] },
+    }
+    const get = async (name: string) => {
+      if (saved[name] === undefined) throw new Error(`No deployment found for: ${name}`)
+      return saved[name]
+    }
+    const deployments = {
+      get,
+      getOrNull: async (name: string) => saved[name] ?? null,
+      save: async (name: string, deployment: Deployment) => {
+        saved[name] = deployment
+      },
+      deploy: async (name: string, { contract }: DeployOptions) => {
+        if (contract !== 'Squeeth') throw new Error(`unexpected contract ${contract}`)
+        const deployed = await new Squeeth__factory(owner).deploy()
+        saved[name] = { address: deployed.address, abi: [] }
+        return saved[name]
+      },
+    }
+
+    hre = {
+      ...HRE,
+      deployments,
+      getNamedAccounts: async () => ({ deployer: owner.address }),
+    } as unknown as HardhatRuntimeEnvironment
+  })
+
+  it('deploys every spec without tags', async () => {
+    await deployProductSpecs(hre)
+
+    // sfBAYC is skipped, as its oracle is not deployed
+    expect(controller.createProduct).to.have.callCount(3)
+    expect(saved.Product_ETH_Long.address).to.equal(PRODUCT)
+    expect(saved.Product_ETH_Short.address).to.equal(PRODUCT)
+    expect(saved.Product_mSQTH_Long.address).to.equal(PRODUCT)
+    expect(saved.Product_sfBAYC_Short).to.be.undefined
+  })
+
+  it('deploys only the specs with the tags', async () => {
+    await deployProductSpecs(hre, ['Squeeth'])
+
+    const [coordinatorId, productInfo] = controller.createProduct.getCall(0).args as [
+      BigNumber,
+      IProduct.ProductInfoStructOutput,
+    ]
+    expect(coordinatorId).to.equal(1)
+    expect(productInfo.symbol).to.equal('mSQTH')
+    expect(productInfo.oracle).to.equal(oracle.address)
+    expect(saved.Product_mSQTH_Long.address).to.equal(PRODUCT)
+    expect(saved.ContractPayoffProvider_Squeeth).to.not.be.undefined
+    expect(saved.Product_ETH_Long).to.be.undefined
+  })
+
+  it('reuses deployed products', async () => {
+    saved.Product_ETH_Short = { address: PRODUCT, abi: [] }
+
+    await deployProductSpecs(hre, ['ShortEther'])
+
+    expect(controller.createProduct).to.not.have.been.called
+  })
+
+  it('skips products whose oracle is not deployed', async () => {
+    delete saved.ChainlinkOracle_ETH
+
+    await deployProductSpecs(hre, ['LongEther'])
+
+    expect(saved.Product_ETH_Long).to.be.undefined
+    expect(controller.createProduct).to.not.have.been.called
+  })
+
+  it('does not deploy from an account that does not own the coordinator', async () => {
+    controller['owner(uint256)'].returns(ethers.constants.AddressZero)
+
+    await deployProductSpecs(hre, ['LongEther'])
+
+    expect(controller.createProduct).to.not.have.been.called
+  })
+
+  it('fails on a tag that matches no spec', async () => {
+    const error = await deployProductSpecs(hre, ['LongEther', 'Unknown']).catch(e => e)
+    expect(error.message).to.equal('No hardhat product specs tagged Unknown')
+    expect(controller.createProduct).to.not.have.been.called
+  })
+})
@@ -0,0 +1,74 @@
+import { utils } from 'ethers'
+import { expect } from 'chai'
+
+import {
+  buildProductInfo,
+  createPayoffDefinition,
+  diffProductInfo,
+  LiveProductInfo,
+  loadProductSpecs,
+  ProductSpec,
+} from '../../../util'
+
+const ORACLE = '0x0000000000000000000000000000000000000001'
+const PAYOFF_PROVIDER = '0x0000000000000000000000000000000000000002'
+
+const resolveAddress = async (name: string) => (name.includes('Oracle') ? ORACLE : PAYOFF_PROVIDER)
+
+describe('Product diff', () => {
+  let spec: ProductSpec
+  let live: LiveProductInfo
+
+  beforeEach(async () => {
+    spec = loadProductSpecs('hardhat').find(spec => spec.symbol === 'mSQTH') as ProductSpec
+    live = {
+      name: spec.name,
+      symbol: spec.symbol,
+      payoffDefinition: createPayoffDefinition({ contractAddress: PAYOFF_PROVIDER }),
+      oracle: ORACLE,
+      maintenance: utils.parseEther(spec.maintenance),
+      fundingFee: utils.parseEther(spec.fundingFee),
+      makerFee: utils.parseEther(spec.makerFee),
+      takerFee: utils.parseEther(spec.takerFee),
+      positionFee: utils.parseEther(spec.positionFee),
+      makerLimit: utils.parseEther(spec.makerLimit),
+      utilizationCurve: {
+        minRate: utils.parseEther(spec.utilizationCurve.minRate),
+        maxRate: utils.parseEther(spec.utilizationCurve.maxRate),
+        targetRate: utils.parseEther(spec.utilizationCurve.targetRate),
+        targetUtilization: utils.parseEther(spec.utilizationCurve.targetUtilization),
+      },
+    }
+  })
+
+  it('reports no drift when the product matches its spec', async () => {
+    expect(await diffProductInfo(await buildProductInfo(spec, resolveAddress), live)).to.deep.equal([])
+  })
+
+  it('reports drifted fields', async () => {
+    live.oracle = PAYOFF_PROVIDER
+    live.makerLimit = utils.parseEther('700')
+    live.utilizationCurve.maxRate = utils.parseEther('10')
+
+    expect(await diffProductInfo(await buildProductInfo(spec, resolveAddress), live)).to.deep.equal([
+      { field: 'oracle', expected: ORACLE, actual: PAYOFF_PROVIDER, updatable: false, pending: false },
+      { field: 'makerLimit', expected: '600.0', actual: '700.0', updatable: true, pending: false },
+      { field: 'utilizationCurve.maxRate', expected: '16.25', actual: '10.0', updatable: true, pending: false },
+    ])
+  })
+
+  it('accounts for pending fee updates', async () => {
+    live.makerFee = utils.parseEther('0.01')
+
+    const productInfo = await buildProductInfo(spec, resolveAddress)
+    expect(
+      await diffProductInfo(productInfo, live, [
+        { field: 'makerFee', value: utils.parseEther('0') },
+        { field: 'takerFee', value: utils.parseEther('0.02') },
+      ]),
+    ).to.deep.equal([
+      { field: 'makerFee', expected: '0.0', actual: '0.01', updatable: true, pending: true },
+      { field: 'takerFee', expected: '0.0', actual: '0.0 (pending 0.02)', updatable: true, pending: false },
+    ])
+  })
+})
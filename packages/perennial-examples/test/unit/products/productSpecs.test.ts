@@ -0,0 +1,102 @@
+import { constants, utils } from 'ethers'
+import { expect } from 'chai'
+
+import {
+  buildProductInfo,
+  checkProductSpec,
+  createPayoffDefinition,
+  loadProductSpecs,
+  productDeploymentName,
+  ProductSpec,
+} from '../../../util'
+
+const ORACLE = '0x0000000000000000000000000000000000000001'
+const PAYOFF_PROVIDER = '0x0000000000000000000000000000000000000002'
+
+const resolveAddress = async (name: string) => {
+  if (name === 'ContractPayoffProvider_Squeeth') return PAYOFF_PROVIDER
+  if (name.includes('Oracle')) return ORACLE
+  throw new Error(`unknown deployment ${name}`)
+}
+
+describe('Product specs', () => {
+  const specs = loadProductSpecs('hardhat')
+
+  it('loads the default specs', async () => {
+    expect(specs.map(productDeploymentName)).to.deep.equal([
+      'Product_ETH_Long',
+      'Product_ETH_Short',
+      'Product_mSQTH_Long',
+      'Product_sfBAYC_Short',
+    ])
+  })
+
+  specs.forEach(spec => {
+    it(`builds ${productDeploymentName(spec)}`, async () => {
+      const productInfo = await buildProductInfo(spec, resolveAddress)
+
+      expect(productInfo.payoffDefinition.payoffDirection).to.equal(spec.payoff.direction === 'short' ? 1 : 0)
+      expect(productInfo.oracle).to.equal(ORACLE)
+      expect(productInfo.maintenance).to.equal(utils.parseEther(spec.maintenance))
+      expect(productInfo.utilizationCurve.targetUtilization).to.equal(
+        utils.parseEther(spec.utilizationCurve.targetUtilization),
+      )
+    })
+  })
+
+  it('builds mSQTH with the Squeeth payoff provider', async () => {
+    const spec = specs.find(spec => spec.symbol === 'mSQTH') as ProductSpec
+    const productInfo = await buildProductInfo(spec, resolveAddress)
+
+    expect(productInfo).to.deep.equal({
+      name: 'milli-Squeeth',
+      symbol: 'mSQTH',
+      payoffDefinition: createPayoffDefinition({ contractAddress: PAYOFF_PROVIDER }),
+      oracle: ORACLE,
+      maintenance: utils.parseEther('0.30'),
+      fundingFee: utils.parseEther('0.10'),
+      makerFee: constants.Zero,
+      takerFee: constants.Zero,
+      positionFee: constants.Zero,
+      makerLimit: utils.parseEther('600'),
+      utilizationCurve: {
+        minRate: utils.parseEther('0.04'),
+        maxRate: utils.parseEther('16.25'),
+        targetRate: utils.parseEther('1.56'),
+        targetUtilization: utils.parseEther('0.80'),
+      },
+    })
+  })
+
+  it('reports malformed specs', async () => {
+    const spec = {
+      ...specs[0],
+      payoff: { direction: 'sideways' },
+      makerLimit: '-1',
+      takerFee: '1.5',
+      utilizationCurve: {},
+    }
+
+    expect(checkProductSpec(specs[0])).to.deep.equal([])
+    expect(checkProductSpec(null)).to.deep.equal(['spec must be an object'])
+    expect(checkProductSpec({ ...specs[0], tag: '' })).to.deep.equal(['tag must be a non-empty string'])
+    expect(checkProductSpec(spec)).to.deep.equal([
+      'payoff.direction must be "long" or "short"',
+      'makerLimit must be a non-negative decimal string',
+      'takerFee must be a decimal string between 0 and 1',
+      'utilizationCurve.minRate must be a decimal string',
+      'utilizationCurve.maxRate must be a decimal string',
+      'utilizationCurve.targetRate must be a decimal string',
+      'utilizationCurve.targetUtilization must be a decimal string between 0 and 1',
+    ])
+  })
+
+  it('accepts negative curve rates', async () => {
+    const utilizationCurve = { ...specs[0].utilizationCurve, minRate: '-0.10', targetRate: '-0.02' }
+
+    expect(checkProductSpec({ ...specs[0], utilizationCurve })).to.deep.equal([])
+    expect(
+      (await buildProductInfo({ ...specs[0], utilizationCurve }, resolveAddress)).utilizationCurve.minRate,
+    ).to.equal(utils.parseEther('-0.10'))
+  })
+})
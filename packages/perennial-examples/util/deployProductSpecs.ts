@@ -0,0 +1,60 @@
+import '@nomiclabs/hardhat-ethers'
+import 'hardhat-deploy'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { IController, IController__factory } from '../types/generated'
+import { buildProductInfo, loadProductSpecs, productDeploymentName } from './productSpecs'
+import { reuseOrDeployProduct } from './reuseOrDeployProduct'
+
+const EXAMPLE_COORDINATOR_ID = 1
+
+/**
+ * Deploys the products of the network's specs, or only those tagged with one of `tags`, along with their contract
+ * payoff providers
+ * @dev Products whose oracle has no deployment on the network are skipped. Throws if a tag matches no spec.
+ */
+export async function deployProductSpecs(hre: HardhatRuntimeEnvironment, tags?: string[]): Promise<void> {
+  const coordinatorID = process.env.COORDINATOR_ID ? parseInt(process.env.COORDINATOR_ID) : EXAMPLE_COORDINATOR_ID
+  const { deployments, getNamedAccounts, ethers, network } = hre
+  const { deploy, get, getOrNull } = deployments
+  const { deployer } = await getNamedAccounts()
+  const deployerSigner: SignerWithAddress = await ethers.getSigner(deployer)
+
+  const allSpecs = loadProductSpecs(network.name)
+  const unknownTags = (tags ?? []).filter(tag => !allSpecs.some(spec => spec.tag === tag))
+  if (unknownTags.length > 0) throw new Error(`No ${network.name} product specs tagged ${unknownTags.join(', ')}`)
+  const specs = tags === undefined ? allSpecs : allSpecs.filter(spec => tags.includes(spec.tag))
+
+  // NETWORK CONSTANTS
+  const controller: IController = IController__factory.connect((await get('Controller_Proxy')).address, deployerSigner)
+  console.log('using Controller at ' + controller.address)
+
+  // Check coordinator owner
+  if (deployerSigner.address !== (await controller['owner(uint256)'](coordinatorID))) {
+    process.stdout.write('not deploying from coordinator owner address... exiting.')
+    return
+  }
+
+  for (const spec of specs) {
+    if ((await getOrNull(spec.oracle)) == null) {
+      console.log(`${spec.oracle} deployment not found... skipping ${productDeploymentName(spec)}`)
+      continue
+    }
+
+    // Contract Payoff Provider
+    const provider = spec.payoff.provider
+    if (provider?.contract) {
+      await deploy(provider.deployment, {
+        contract: provider.contract,
+        args: [],
+        from: deployerSigner.address,
+        skipIfAlreadyDeployed: true,
+        log: true,
+        autoMine: true,
+      })
+    }
+
+    const productInfo = await buildProductInfo(spec, async name => (await get(name)).address)
+    await reuseOrDeployProduct(hre, coordinatorID, controller, productInfo)
+  }
+}
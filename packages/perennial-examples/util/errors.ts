@@ -0,0 +1,14 @@
+import * as typechain from '../types/generated'
+import { ErrorRegistry } from '../../common/testutil/errors'
+
+/**
+ * Every custom error of the contracts compiled with the examples, including the protocol interfaces they use
+ */
+export const errorRegistry = ErrorRegistry.fromTypechain([typechain])
+
+/**
+ * Describes a thrown error on one line, for task logs
+ */
+export function describeError(error: unknown): string {
+  return errorRegistry.describe(error)
+}
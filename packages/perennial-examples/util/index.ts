@@ -1,2 +1,6 @@
 export * from './createPayoffDefinition'
 export * from './reuseOrDeployProduct'
+export * from './productSpecs'
+export * from './productDiff'
+export * from './deployProductSpecs'
+export * from './errors'
@@ -0,0 +1,245 @@
+import { BigNumber, BigNumberish, utils } from 'ethers'
+import { IPerennialLens, IProduct } from '../types/generated'
+
+const DECIMAL_FIELDS = ['maintenance', 'fundingFee', 'makerFee', 'takerFee', 'positionFee', 'makerLimit'] as const
+const CURVE_FIELDS = ['minRate', 'maxRate', 'targetRate', 'targetUtilization'] as const
+const FEE_FIELDS = ['makerFee', 'takerFee', 'positionFee'] as const
+
+type DecimalField = (typeof DECIMAL_FIELDS)[number]
+type FeeField = (typeof FEE_FIELDS)[number]
+
+export interface LiveProductInfo {
+  name: string
+  symbol: string
+  payoffDefinition: { payoffType: number; payoffDirection: number; data: string }
+  oracle: string
+  maintenance: BigNumber
+  fundingFee: BigNumber
+  makerFee: BigNumber
+  takerFee: BigNumber
+  positionFee: BigNumber
+  makerLimit: BigNumber
+  utilizationCurve: { minRate: BigNumber; maxRate: BigNumber; targetRate: BigNumber; targetUtilization: BigNumber }
+}
+
+export interface ProductFieldDiff {
+  field: string
+  expected: string
+  actual: string
+  // Whether the field can be changed through an IParamProvider update
+  updatable: boolean
+  // Set when a pending fee update already moves the field to its expected value
+  pending: boolean
+}
+
+export interface PendingFeeUpdate {
+  field: FeeField
+  value: BigNumber
+}
+
+// Call to send from the product owner
+export interface ProductUpdateCall {
+  target: string
+  data: string
+}
+
+export interface ProductDrift {
+  product: string
+  diffs: ProductFieldDiff[]
+  pendingFeeUpdates: PendingFeeUpdate[]
+  // Oracle version at which the pending fee updates take effect
+  pendingFeeVersion?: BigNumber
+}
+
+/**
+ * Reads the live ProductInfo of `product`, using the lens for its definition and the IParamProvider getters
+ * for its parameters
+ */
+export async function readProductInfo(lens: IPerennialLens, product: IProduct): Promise<LiveProductInfo> {
+  const [info, maintenance, fundingFee, makerFee, takerFee, positionFee, makerLimit, utilizationCurve] =
+    await Promise.all([
+      lens.info(product.address),
+      product['maintenance()'](),
+      product.fundingFee(),
+      product.makerFee(),
+      product.takerFee(),
+      product.positionFee(),
+      product.makerLimit(),
+      product.utilizationCurve(),
+    ])
+
+  return {
+    name: info.name,
+    symbol: info.symbol,
+    payoffDefinition: {
+      payoffType: info.payoffDefinition.payoffType,
+      payoffDirection: info.payoffDefinition.payoffDirection,
+      data: info.payoffDefinition.data,
+    },
+    oracle: info.oracle,
+    maintenance,
+    fundingFee,
+    makerFee,
+    takerFee,
+    positionFee,
+    makerLimit,
+    utilizationCurve: {
+      minRate: utilizationCurve.minRate,
+      maxRate: utilizationCurve.maxRate,
+      targetRate: utilizationCurve.targetRate,
+      targetUtilization: utilizationCurve.targetUtilization,
+    },
+  }
+}
+
+/**
+ * Reads the fee updates of `product` that will be applied at its next settlement
+ */
+export async function readPendingFeeUpdates(
+  lens: IPerennialLens,
+  product: IProduct,
+): Promise<Pick<ProductDrift, 'pendingFeeUpdates' | 'pendingFeeVersion'>> {
+  const pending = await product.pendingFeeUpdates()
+  const pendingFeeUpdates: PendingFeeUpdate[] = []
+  if (pending.makerFeeUpdated) pendingFeeUpdates.push({ field: 'makerFee', value: pending.pendingMakerFee })
+  if (pending.takerFeeUpdated) pendingFeeUpdates.push({ field: 'takerFee', value: pending.pendingTakerFee })
+  if (pending.positionFeeUpdated) pendingFeeUpdates.push({ field: 'positionFee', value: pending.pendingPositionFee })
+  if (pendingFeeUpdates.length === 0) return { pendingFeeUpdates }
+
+  // Pending fee updates are applied when the product settles its pre-position, one version after it was opened
+  const pre = await lens.callStatic.pre(product.address)
+  return { pendingFeeUpdates, pendingFeeVersion: pre.oracleVersion.add(1) }
+}
+
+/**
+ * Compares the intended `expected` ProductInfo against the live `actual` ProductInfo field by field
+ */
+export async function diffProductInfo(
+  expected: IProduct.ProductInfoStruct,
+  actual: LiveProductInfo,
+  pendingFeeUpdates: PendingFeeUpdate[] = [],
+): Promise<ProductFieldDiff[]> {
+  const diffs: ProductFieldDiff[] = []
+  const compare = (field: string, expectedValue: string, actualValue: string, updatable: boolean, pending = false) => {
+    if (expectedValue !== actualValue)
+      diffs.push({ field, expected: expectedValue, actual: actualValue, updatable, pending })
+  }
+  const decimal = async (value: BigNumberish | Promise<BigNumberish>) => utils.formatEther(await value)
+
+  compare('name', await expected.name, actual.name, false)
+  compare('symbol', await expected.symbol, actual.symbol, false)
+  compare(
+    'payoffDefinition.payoffType',
+    BigNumber.from(await expected.payoffDefinition.payoffType).toString(),
+    actual.payoffDefinition.payoffType.toString(),
+    false,
+  )
+  compare(
+    'payoffDefinition.payoffDirection',
+    BigNumber.from(await expected.payoffDefinition.payoffDirection).toString(),
+    actual.payoffDefinition.payoffDirection.toString(),
+    false,
+  )
+  compare(
+    'payoffDefinition.data',
+    utils.hexlify(await expected.payoffDefinition.data).toLowerCase(),
+    actual.payoffDefinition.data.toLowerCase(),
+    false,
+  )
+  compare('oracle', utils.getAddress(await expected.oracle), utils.getAddress(actual.oracle), false)
+
+  for (const field of DECIMAL_FIELDS) {
+    const expectedValue = await decimal(expected[field])
+    const actualValue = await decimal(actual[field])
+    const pendingUpdate = pendingFeeUpdates.find(update => update.field === field)
+    const pendingValue = pendingUpdate && utils.formatEther(pendingUpdate.value)
+
+    if (pendingValue === undefined) compare(field, expectedValue, actualValue, true)
+    else if (pendingValue === expectedValue) compare(field, expectedValue, actualValue, true, true)
+    else compare(field, expectedValue, `${actualValue} (pending ${pendingValue})`, true)
+  }
+  for (const field of CURVE_FIELDS) {
+    compare(
+      `utilizationCurve.${field}`,
+      await decimal(expected.utilizationCurve[field]),
+      await decimal(actual.utilizationCurve[field]),
+      true,
+    )
+  }
+
+  return diffs
+}
+
+/**
+ * Reads `product`'s live parameters and pending fee updates and compares them against `expected`
+ */
+export async function getProductDrift(
+  lens: IPerennialLens,
+  product: IProduct,
+  expected: IProduct.ProductInfoStruct,
+): Promise<ProductDrift> {
+  const [actual, pending] = await Promise.all([readProductInfo(lens, product), readPendingFeeUpdates(lens, product)])
+  const diffs = await diffProductInfo(expected, actual, pending.pendingFeeUpdates)
+  return { product: product.address, diffs, ...pending }
+}
+
+/**
+ * Encodes the IParamProvider updates that bring `product` back to `expected`, to be sent from the product owner
+ * @dev Fields that are not updatable and fields with a matching pending fee update are skipped.
+ */
+export async function encodeProductDiffs(
+  product: IProduct,
+  expected: IProduct.ProductInfoStruct,
+  diffs: ProductFieldDiff[],
+): Promise<ProductUpdateCall[]> {
+  const toApply = diffs.filter(diff => diff.updatable && !diff.pending)
+  const calls: ProductUpdateCall[] = []
+
+  for (const field of DECIMAL_FIELDS) {
+    if (!toApply.some(diff => diff.field === field)) continue
+    calls.push({ target: product.address, data: encodeUpdateParam(product, field, await expected[field]) })
+  }
+  if (toApply.some(diff => diff.field.startsWith('utilizationCurve.'))) {
+    const data = product.interface.encodeFunctionData('updateUtilizationCurve', [expected.utilizationCurve])
+    calls.push({ target: product.address, data })
+  }
+
+  return calls
+}
+
+/**
+ * Sends the IParamProvider updates that bring `product` back to `expected`
+ * @dev `product` must be connected to the product owner.
+ */
+export async function applyProductDiffs(
+  product: IProduct,
+  expected: IProduct.ProductInfoStruct,
+  diffs: ProductFieldDiff[],
+): Promise<string[]> {
+  const hashes: string[] = []
+
+  for (const { target, data } of await encodeProductDiffs(product, expected, diffs)) {
+    const tx = await product.signer.sendTransaction({ to: target, data })
+    await tx.wait()
+    hashes.push(tx.hash)
+  }
+
+  return hashes
+}
+
+function encodeUpdateParam(product: IProduct, field: DecimalField, value: BigNumberish): string {
+  switch (field) {
+    case 'maintenance':
+      return product.interface.encodeFunctionData('updateMaintenance', [value])
+    case 'fundingFee':
+      return product.interface.encodeFunctionData('updateFundingFee', [value])
+    case 'makerFee':
+      return product.interface.encodeFunctionData('updateMakerFee', [value])
+    case 'takerFee':
+      return product.interface.encodeFunctionData('updateTakerFee', [value])
+    case 'positionFee':
+      return product.interface.encodeFunctionData('updatePositionFee', [value])
+    case 'makerLimit':
+      return product.interface.encodeFunctionData('updateMakerLimit', [value])
+  }
+}
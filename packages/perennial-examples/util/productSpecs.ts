@@ -0,0 +1,143 @@
+import { existsSync, readdirSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { utils } from 'ethers'
+import { IProduct } from '../types/generated'
+import createPayoffDefinition from './createPayoffDefinition'
+
+export const PRODUCT_SPECS_DIR = join(__dirname, '..', 'products')
+export const DEFAULT_PRODUCT_SPECS_NETWORK = 'default'
+
+const UNSIGNED_FIELDS = ['maintenance', 'makerLimit'] as const
+const FEE_FIELDS = ['fundingFee', 'makerFee', 'takerFee', 'positionFee'] as const
+// Rates are signed, as `JumpRateUtilizationCurve` rates are Fixed18
+const CURVE_RATE_FIELDS = ['minRate', 'maxRate', 'targetRate'] as const
+
+/**
+ * Declarative definition of a product
+ * @dev Decimal values are 18 decimal strings (e.g. "0.30"). The oracle and payoff provider are referenced by
+ *      deployment name, and resolved to addresses when the spec is turned into a ProductInfo. `tag` groups
+ *      products so a deploy can be limited to some of them with PRODUCT_TAGS.
+ */
+export interface ProductSpec {
+  name: string
+  symbol: string
+  tag: string
+  payoff: {
+    direction: 'long' | 'short'
+    provider?: { deployment: string; contract?: string }
+  }
+  oracle: string
+  maintenance: string
+  fundingFee: string
+  makerFee: string
+  takerFee: string
+  positionFee: string
+  makerLimit: string
+  utilizationCurve: {
+    minRate: string
+    maxRate: string
+    targetRate: string
+    targetUtilization: string
+  }
+}
+
+export function productDeploymentName(spec: ProductSpec): string {
+  return `Product_${spec.symbol}_${spec.payoff.direction === 'short' ? 'Short' : 'Long'}`
+}
+
+/**
+ * Returns the list of problems with `spec`, or an empty list if it is a well-formed ProductSpec
+ */
+export function checkProductSpec(spec: unknown): string[] {
+  const errors: string[] = []
+  const isRecord = (value: unknown): value is { [key: string]: unknown } => typeof value === 'object' && value !== null
+  const isString = (value: unknown) => typeof value === 'string' && value.length > 0
+  const parseDecimal = (value: unknown) => {
+    if (typeof value !== 'string') return undefined
+    try {
+      return utils.parseEther(value)
+    } catch {
+      return undefined
+    }
+  }
+  const isUnsigned = (value: unknown) => parseDecimal(value)?.isNegative() === false
+  const isFraction = (value: unknown) => {
+    const decimal = parseDecimal(value)
+    return decimal !== undefined && !decimal.isNegative() && decimal.lte(utils.parseEther('1'))
+  }
+
+  if (!isRecord(spec)) return ['spec must be an object']
+  const payoff = isRecord(spec.payoff) ? spec.payoff : {}
+  const utilizationCurve = isRecord(spec.utilizationCurve) ? spec.utilizationCurve : {}
+
+  if (!isString(spec.name)) errors.push('name must be a non-empty string')
+  if (!isString(spec.symbol)) errors.push('symbol must be a non-empty string')
+  if (!isString(spec.tag)) errors.push('tag must be a non-empty string')
+  if (!isString(spec.oracle)) errors.push('oracle must be a deployment name')
+  if (payoff.direction !== 'long' && payoff.direction !== 'short')
+    errors.push('payoff.direction must be "long" or "short"')
+  if (payoff.provider !== undefined && !(isRecord(payoff.provider) && isString(payoff.provider.deployment)))
+    errors.push('payoff.provider.deployment must be a deployment name')
+  UNSIGNED_FIELDS.forEach(field => {
+    if (!isUnsigned(spec[field])) errors.push(`${field} must be a non-negative decimal string`)
+  })
+  FEE_FIELDS.forEach(field => {
+    if (!isFraction(spec[field])) errors.push(`${field} must be a decimal string between 0 and 1`)
+  })
+  CURVE_RATE_FIELDS.forEach(field => {
+    if (parseDecimal(utilizationCurve[field]) === undefined)
+      errors.push(`utilizationCurve.${field} must be a decimal string`)
+  })
+  if (!isFraction(utilizationCurve.targetUtilization))
+    errors.push('utilizationCurve.targetUtilization must be a decimal string between 0 and 1')
+
+  return errors
+}
+
+/**
+ * Loads and checks every spec in the spec directory of `network`, falling back to the default specs
+ */
+export function loadProductSpecs(network: string, dir = PRODUCT_SPECS_DIR): ProductSpec[] {
+  const networkDir = existsSync(join(dir, network)) ? join(dir, network) : join(dir, DEFAULT_PRODUCT_SPECS_NETWORK)
+
+  return readdirSync(networkDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const spec = JSON.parse(readFileSync(join(networkDir, file), 'utf-8'))
+      const errors = checkProductSpec(spec)
+      if (errors.length > 0)
+        throw new Error(`Invalid product spec ${join(networkDir, file)}:\n  ${errors.join('\n  ')}`)
+      return spec as ProductSpec
+    })
+}
+
+/**
+ * Builds the ProductInfo for `spec`, resolving deployment names with `resolveAddress`
+ */
+export async function buildProductInfo(
+  spec: ProductSpec,
+  resolveAddress: (deploymentName: string) => Promise<string>,
+): Promise<IProduct.ProductInfoStruct> {
+  return {
+    name: spec.name,
+    symbol: spec.symbol,
+    payoffDefinition: createPayoffDefinition({
+      contractAddress: spec.payoff.provider ? await resolveAddress(spec.payoff.provider.deployment) : undefined,
+      short: spec.payoff.direction === 'short',
+    }),
+    oracle: await resolveAddress(spec.oracle),
+    maintenance: utils.parseEther(spec.maintenance),
+    fundingFee: utils.parseEther(spec.fundingFee),
+    makerFee: utils.parseEther(spec.makerFee),
+    takerFee: utils.parseEther(spec.takerFee),
+    positionFee: utils.parseEther(spec.positionFee),
+    makerLimit: utils.parseEther(spec.makerLimit),
+    utilizationCurve: {
+      minRate: utils.parseEther(spec.utilizationCurve.minRate),
+      maxRate: utils.parseEther(spec.utilizationCurve.maxRate),
+      targetRate: utils.parseEther(spec.utilizationCurve.targetRate),
+      targetUtilization: utils.parseEther(spec.utilizationCurve.targetUtilization),
+    },
+  }
+}
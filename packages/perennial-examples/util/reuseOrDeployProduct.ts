@@ -1,8 +1,10 @@
+import { Network } from 'hardhat/types'
 import { DeploymentsExtension } from 'hardhat-deploy/types'
 import { IController, IProduct, IProduct__factory } from '../types/generated'
+import { assertValidProductInfo } from '../../common/testutil/productInfo'
 
 export default async function reuseOrDeployProduct(
-  { deployments: { getOrNull, save, get } }: { deployments: DeploymentsExtension },
+  { deployments: { getOrNull, save, get }, network }: { deployments: DeploymentsExtension; network: Network },
   coordinatorId: number,
   controller: IController,
   productInfo: IProduct.ProductInfoStruct,
@@ -13,11 +15,14 @@ export default async function reuseOrDeployProduct(
   let productAddress: string | undefined = (await getOrNull(deploymentName))?.address
 
   if (productAddress == null) {
+    await assertValidProductInfo(productInfo, { provider: controller.provider, controller })
+
     process.stdout.write(`creating ${deploymentName}...`)
     productAddress = await controller.callStatic.createProduct(coordinatorId, productInfo)
 
     const productImpl = await get('Product_Impl')
-    const receipt = await (await controller.createProduct(coordinatorId, productInfo)).wait(2)
+    // Local networks may only mine on demand, so a second confirmation might never come
+    const receipt = await (await controller.createProduct(coordinatorId, productInfo)).wait(network.live ? 2 : 1)
     await save(deploymentName, {
       ...productImpl,
       address: productAddress,
@@ -3,6 +3,8 @@ import { dirname } from 'path'
 import defaultConfig, { FORK_ENABLED, FORK_NETWORK } from '../common/hardhat.default.config'
 const eqPerennialDir = dirname(require.resolve('@equilibria/perennial/package.json'))
 
+import './tasks'
+
 const config = defaultConfig({
   solidityVersion: '0.8.17',
   externalDeployments: {
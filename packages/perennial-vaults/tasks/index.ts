@@ -0,0 +1,2 @@
+export * from '../../common/tasks/checkUpgrade'
+export * from '../../common/tasks/seedStorageLayout'
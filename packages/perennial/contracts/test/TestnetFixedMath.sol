@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.15;
+
+import "@equilibria/root/number/types/UFixed18.sol";
+import "@equilibria/root/number/types/Fixed18.sol";
+
+/// @dev Exposes the root fixed point types so off-chain math can be checked against them. root 0.2.0 has no
+///      mulOut, divOut or UFixed6, so the off-chain versions of those can't be checked here.
+contract TestnetFixedMath {
+    function ufixed18Mul(UFixed18 a, UFixed18 b) external pure returns (UFixed18) {
+        return a.mul(b);
+    }
+
+    function ufixed18Div(UFixed18 a, UFixed18 b) external pure returns (UFixed18) {
+        return a.div(b);
+    }
+
+    function ufixed18UnsafeDiv(UFixed18 a, UFixed18 b) external pure returns (UFixed18) {
+        return a.unsafeDiv(b);
+    }
+
+    function ufixed18FromFixed18(Fixed18 a) external pure returns (UFixed18) {
+        return UFixed18Lib.from(a);
+    }
+
+    function fixed18Mul(Fixed18 a, Fixed18 b) external pure returns (Fixed18) {
+        return a.mul(b);
+    }
+
+    function fixed18Div(Fixed18 a, Fixed18 b) external pure returns (Fixed18) {
+        return a.div(b);
+    }
+
+    function fixed18UnsafeDiv(Fixed18 a, Fixed18 b) external pure returns (Fixed18) {
+        return a.unsafeDiv(b);
+    }
+
+    function fixed18FromSign(int256 s, UFixed18 m) external pure returns (Fixed18) {
+        return Fixed18Lib.from(s, m);
+    }
+
+    function fixed18Sign(Fixed18 a) external pure returns (int256) {
+        return a.sign();
+    }
+
+    function fixed18Abs(Fixed18 a) external pure returns (UFixed18) {
+        return a.abs();
+    }
+}
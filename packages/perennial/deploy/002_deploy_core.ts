@@ -1,7 +1,7 @@
 import { HardhatRuntimeEnvironment } from 'hardhat/types'
 import { DeployFunction } from 'hardhat-deploy/types'
 import { Deployment } from 'hardhat-deploy/dist/types'
-import { getMultisigAddress } from '../../common/testutil/constants'
+import { getMultisigAddress, getTimelockMinDelay } from '../../common/testutil/constants'
 import {
   Collateral,
   Collateral__factory,
@@ -14,7 +14,7 @@ import {
   UCrossChainOwner__factory,
 } from '../types/generated'
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
-import { isArbitrum, isBase, isEthereum, isOptimism, isTestnet } from '../../common/testutil/network'
+import { isArbitrum, isBase, isEthereum, isOptimism } from '../../common/testutil/network'
 
 const ROOT_CONTROLLER_ID = 0
 const CROSS_CHAIN_OWNER_DISABLED = true
@@ -31,7 +31,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const usdcAddress = (await getOrNull('USDC'))?.address || (await get('TestnetUSDC')).address
   const multisigAddress = getMultisigAddress(networkName) || deployer
   const deployerSigner: SignerWithAddress = await ethers.getSigner(deployer)
-  const TIMELOCK_MIN_DELAY = isTestnet(networkName) ? 60 : 2 * 24 * 60 * 60 // 2 days
+  const TIMELOCK_MIN_DELAY = getTimelockMinDelay(networkName)
 
   console.log('using DSU address: ' + dsuAddress)
   console.log('using USDC address: ' + usdcAddress)
@@ -26,17 +26,12 @@ const MINIMUM_CONTRACT_SIZE_SOLIDITY_OVERRIDES = {
           },
         }
       : { enabled: false },
-    outputSelection: OPTIMIZER_ENABLED
-      ? {
-          '*': {
-            '*': ['evm.deployedBytecode.sourceMap'],
-          },
-        }
-      : {
-          '*': {
-            '*': ['storageLayout'], // This is needed by Smock for mocking functions
-          },
-        },
+    // Storage layouts are needed by Smock for mocking functions, and to check upgrades of the production build
+    outputSelection: {
+      '*': {
+        '*': OPTIMIZER_ENABLED ? ['evm.deployedBytecode.sourceMap', 'storageLayout'] : ['storageLayout'],
+      },
+    },
   },
 }
 
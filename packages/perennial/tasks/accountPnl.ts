@@ -0,0 +1,72 @@
+import '@nomiclabs/hardhat-ethers'
+import { utils } from 'ethers'
+import { writeFile } from 'fs/promises'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { accountPnl, describingErrors, syncEventStore, toCsv } from '../util'
+
+export default task('accountPnl', "Attributes an account's collateral changes in a Product to PnL, funding and fees")
+  .addPositionalParam('account', 'Account Address to Report')
+  .addPositionalParam('product', 'Product Address to Report')
+  .addOptionalParam('output', 'Output file path')
+  .setAction(
+    describingErrors(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+      const {
+        ethers,
+        deployments: { get },
+      } = HRE
+      const controller = await ethers.getContractAt('IController', (await get('Controller_Proxy')).address)
+      const collateral = await ethers.getContractAt('ICollateral', (await get('Collateral_Proxy')).address)
+      const product = await ethers.getContractAt('IProduct', args.product)
+
+      const store = await syncEventStore(HRE)
+      const report = await accountPnl(store, { controller, collateral, product }, args.account)
+
+      const rows = report.entries.map(entry => ({
+        blockNumber: entry.blockNumber,
+        transactionHash: entry.transactionHash,
+        type: entry.type,
+        version: entry.version ?? '',
+        amount: utils.formatEther(entry.amount),
+        maker: utils.formatEther(entry.position.maker),
+        taker: utils.formatEther(entry.position.taker),
+        deposits: utils.formatEther(entry.deposits),
+        withdrawals: utils.formatEther(entry.withdrawals),
+        pricePnl: utils.formatEther(entry.pricePnl),
+        funding: utils.formatEther(entry.funding),
+        positionFeeRebates: utils.formatEther(entry.positionFeeRebates),
+        positionFees: utils.formatEther(entry.positionFees),
+        liquidationFees: utils.formatEther(entry.liquidationFees),
+        shortfall: utils.formatEther(entry.shortfall),
+        collateral: utils.formatEther(entry.collateral),
+      }))
+
+      // Without an output file the CSV is printed, so everything else goes to stderr to keep stdout valid CSV
+      const log = args.output ? console.log : console.error
+      if (args.output) {
+        await writeFile(args.output, toCsv(rows))
+        log(`Wrote ${rows.length} entries to ${args.output}`)
+      } else {
+        console.log(toCsv(rows))
+      }
+
+      const { totals } = report
+      log(`
+      Account: ${args.account}, Product: ${args.product}, as of block ${store.checkpoint}
+        deposits: ${utils.formatEther(totals.deposits)}
+        withdrawals: ${utils.formatEther(totals.withdrawals)}
+        price pnl: ${utils.formatEther(totals.pricePnl)}
+        funding: ${utils.formatEther(totals.funding)}
+        position fee rebates: ${utils.formatEther(totals.positionFeeRebates)}
+        position fees: ${utils.formatEther(totals.positionFees)}
+        liquidation fees: ${utils.formatEther(totals.liquidationFees)}
+        shortfall: ${utils.formatEther(totals.shortfall)}
+        on-chain collateral: ${utils.formatEther(report.collateral)}
+    `)
+      if (!report.matches) {
+        log('Attributed collateral does not match the on-chain collateral')
+        process.exitCode = 1
+      }
+      log('done.')
+    }),
+  )
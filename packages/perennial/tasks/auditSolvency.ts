@@ -0,0 +1,80 @@
+import '@nomiclabs/hardhat-ethers'
+import { utils } from 'ethers'
+import { writeFile } from 'fs/promises'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { providers } from '@0xsequence/multicall'
+import { auditProduct, describeError, getTreasuries, reconcileCollateral, syncEventStore, toCsv } from '../util'
+
+export default task('auditSolvency', 'Audits the solvency of every Product and of the Collateral contract')
+  .addOptionalParam('format', 'Report format, json or csv', 'json')
+  .addOptionalParam('output', 'Output file path')
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const {
+      ethers,
+      deployments: { get },
+    } = HRE
+    if (!['json', 'csv'].includes(args.format)) throw `Unsupported format: ${args.format}`
+
+    const multicall = new providers.MulticallProvider(ethers.provider)
+    const controller = await ethers.getContractAt('IController', (await get('Controller_Proxy')).address)
+    const collateral = await ethers.getContractAt('ICollateral', (await get('Collateral_Proxy')).address)
+    const lens = (await ethers.getContractAt('IPerennialLens', (await get('PerennialLens_V01')).address)).connect(
+      multicall,
+    )
+    const token = await ethers.getContractAt('IERC20', await collateral.token())
+
+    const store = await syncEventStore(HRE)
+    const products = store.products()
+    console.log(`Auditing ${products.length} products`)
+
+    const productReports = []
+    for (const product of products) {
+      try {
+        productReports.push(await auditProduct(lens, product, store.users(product)))
+      } catch (e) {
+        throw `Auditing product ${product} failed: ${describeError(e)}`
+      }
+    }
+    const treasuries = await getTreasuries(controller, products)
+    const reconciliation = await reconcileCollateral(collateral, token, products, treasuries)
+
+    const rows = [
+      ...productReports.map(report => ({
+        type: 'product',
+        address: report.product,
+        users: report.users,
+        collateral: utils.formatEther(report.collateral),
+        shortfall: utils.formatEther(report.shortfall),
+        userCollateral: utils.formatEther(report.userCollateral),
+        fees: '',
+        balance: '',
+        delta: utils.formatEther(report.delta),
+        solvent: report.solvent,
+      })),
+      {
+        type: 'collateral',
+        address: collateral.address,
+        users: '',
+        collateral: utils.formatEther(reconciliation.productCollateral),
+        shortfall: '',
+        userCollateral: '',
+        fees: utils.formatEther(reconciliation.fees),
+        balance: utils.formatEther(reconciliation.balance),
+        delta: utils.formatEther(reconciliation.delta),
+        solvent: reconciliation.solvent,
+      },
+    ]
+    const report = args.format === 'csv' ? toCsv(rows) : JSON.stringify(rows, null, 2)
+
+    if (args.output) {
+      await writeFile(args.output, report)
+    } else {
+      console.log(report)
+    }
+
+    const insolvent = rows.filter(({ solvent }) => !solvent)
+    insolvent.forEach(({ type, address, delta }) => console.log(`Insolvent ${type} ${address}, delta: ${delta}`))
+    if (insolvent.length > 0) process.exitCode = 1
+    console.log('done.')
+  })
@@ -3,10 +3,7 @@ import { formatEther } from 'ethers/lib/utils'
 import { task } from 'hardhat/config'
 import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
 import { providers } from '@0xsequence/multicall'
-
-function chunk<T>(arr: T[], size: number): T[][] {
-  return Array.from({ length: Math.ceil(arr.length / size) }, (_: T, i: number) => arr.slice(i * size, i * size + size))
-}
+import { findLiquidatable, syncEventStore } from '../util'
 
 export default task('checkLiquidatable', 'Checks all Product users to see if liquidatable')
   .addPositionalParam('product', 'Product Address to Check')
@@ -16,40 +13,25 @@ export default task('checkLiquidatable', 'Checks all Product users to see if liq
       deployments: { get },
     } = HRE
     const multicall = new providers.MulticallProvider(ethers.provider)
-    const collateral = (await ethers.getContractAt('ICollateral', (await get('Collateral_Proxy')).address)).connect(
-      multicall,
-    )
     const lens = (await ethers.getContractAt('IPerennialLens', (await get('PerennialLens_V01')).address)).connect(
       multicall,
     )
 
-    const deposits = await collateral.queryFilter(collateral.filters.Deposit(null, args.product))
-    const users = Array.from(new Set([...deposits].map(e => e.args.user.toLowerCase())))
-    const usersChunked = chunk<string>(users, 50)
+    const users = (await syncEventStore(HRE)).users(args.product)
 
     console.log(`Product: ${args.product}. Checking if any of ${users.length} users are liquidatable`)
-    for (let i = 0; i < usersChunked.length; i++) {
-      const userGroup = usersChunked[i]
-      const liquidatable = await Promise.all(
-        userGroup.map(account => lens.callStatic.liquidatable(account, args.product)),
-      )
-      await Promise.all(
-        liquidatable.map(async (l, i) => {
-          if (l) {
-            const snapshot = await lens.callStatic['snapshot(address,address)'](userGroup[i], args.product)
-            console.log(`
-            Found liquidatable user: ${userGroup[i]},
+    const liquidatable = await findLiquidatable(lens, args.product, users)
+    await Promise.all(
+      liquidatable.map(async account => {
+        const snapshot = await lens.callStatic['snapshot(address,address)'](account, args.product)
+        console.log(`
+            Found liquidatable user: ${account},
             position:
               maker: ${formatEther(snapshot.position.maker)}
               taker: ${formatEther(snapshot.position.taker)}
             collateral: ${formatEther(snapshot.collateral)}
           `)
-            return true
-          }
-
-          return false
-        }),
-      )
-    }
+      }),
+    )
     console.log('done.')
   })
@@ -0,0 +1,49 @@
+import '@nomiclabs/hardhat-ethers'
+import { utils } from 'ethers'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { decodeError, describeError } from '../util'
+
+export default task('decodeError', 'Decodes revert data, or the revert of a failed transaction, into a readable error')
+  .addPositionalParam('data', 'Revert data or hash of a reverted transaction')
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const { ethers } = HRE
+    if (!utils.isHexString(args.data)) throw 'data must be hex revert data or a transaction hash'
+
+    // Receipts don't include revert data, so reverted transactions are replayed on the state before their block
+    if (utils.hexDataLength(args.data) === 32) {
+      const [transaction, receipt] = await Promise.all([
+        ethers.provider.getTransaction(args.data),
+        ethers.provider.getTransactionReceipt(args.data),
+      ])
+      if (!transaction || !receipt) throw `transaction ${args.data} not found`
+      if (receipt.status === 1) {
+        console.log(`Transaction ${args.data} did not revert`)
+        console.log('done.')
+        return
+      }
+
+      try {
+        await ethers.provider.call(
+          { from: transaction.from, to: transaction.to, data: transaction.data, value: transaction.value },
+          receipt.blockNumber - 1,
+        )
+        console.log('Transaction no longer reverts when replayed')
+      } catch (e) {
+        console.log(describeError(e))
+      }
+      console.log('done.')
+      return
+    }
+
+    const decoded = decodeError(args.data)
+    if (!decoded) {
+      console.log(`Unknown error ${args.data}`)
+      process.exitCode = 1
+      return
+    }
+    console.log(decoded.signature)
+    Object.entries(decoded.args).forEach(([name, value]) => console.log(`  ${name}: ${value}`))
+    if (decoded.explanation) console.log(decoded.explanation)
+    console.log('done.')
+  })
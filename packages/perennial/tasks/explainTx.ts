@@ -0,0 +1,81 @@
+import '@nomiclabs/hardhat-ethers'
+import { utils } from 'ethers'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import {
+  decodeInvocations,
+  decodeReceiptEvents,
+  describingErrors,
+  explainEvent,
+  explainInvocation,
+  isInvokeCalldata,
+  labelAddresses,
+} from '../util'
+
+export default task('explainTx', 'Decodes a MultiInvoker invoke transaction into readable steps and its events')
+  .addPositionalParam('tx', 'Transaction hash or invoke calldata')
+  .setAction(
+    describingErrors(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+      const {
+        ethers,
+        deployments: { all, get, getOrNull },
+      } = HRE
+      if (!utils.isHexString(args.tx)) throw 'tx must be a transaction hash or hex calldata'
+
+      const isHash = utils.hexDataLength(args.tx) === 32
+      const transaction = isHash ? await ethers.provider.getTransaction(args.tx) : undefined
+      if (isHash && !transaction) throw `transaction ${args.tx} not found`
+      const data = transaction?.data ?? args.tx
+
+      // Transactions to other contracts, e.g. a direct deposit or a settlement, only have their events explained
+      const multiInvoker = await getOrNull('MultiInvoker_Proxy')
+      const toMultiInvoker =
+        !transaction || (multiInvoker !== null && transaction.to?.toLowerCase() === multiInvoker.address.toLowerCase())
+      const isInvoke = toMultiInvoker && isInvokeCalldata(data)
+      if (!transaction && !isInvoke) throw 'calldata is not a MultiInvoker invoke call'
+
+      const steps = isInvoke ? decodeInvocations(data) : []
+      const receipt = transaction ? await ethers.provider.getTransactionReceipt(args.tx) : undefined
+      const events = receipt ? decodeReceiptEvents(receipt) : []
+
+      // Label every address the steps and events mention
+      const addresses = [
+        ...steps.reduce(
+          (acc: string[], step) =>
+            acc.concat(Object.values(step.args).filter((v): v is string => typeof v === 'string')),
+          [],
+        ),
+        ...events.reduce(
+          (acc: string[], event) =>
+            acc.concat([
+              event.address,
+              ...Object.values(event.args).filter((v): v is string => typeof v === 'string' && utils.isAddress(v)),
+            ]),
+          [],
+        ),
+      ]
+      const deployments = Object.entries(await all()).reduce(
+        (acc: { [name: string]: string }, [name, deployment]) => ({ ...acc, [name]: deployment.address }),
+        {},
+      )
+      const lens = await ethers.getContractAt('IPerennialLens', (await get('PerennialLens_V01')).address)
+      const labels = await labelAddresses(lens, addresses, deployments)
+
+      if (transaction) {
+        console.log(`Transaction ${transaction.hash} from ${transaction.from} to ${transaction.to}`)
+        console.log(`  status: ${receipt?.status === 1 ? 'success' : 'reverted'}, block: ${receipt?.blockNumber}`)
+      }
+      if (isInvoke) {
+        console.log(`Invocations (${steps.length}):`)
+        steps.forEach((step, i) => console.log(`  ${i + 1}. ${explainInvocation(step, labels)}`))
+      } else {
+        console.log('Not a MultiInvoker invoke call, only its events are explained')
+      }
+
+      if (receipt) {
+        console.log(`Events (${events.length}):`)
+        events.forEach(event => console.log(`  [${event.logIndex}] ${explainEvent(event, labels)}`))
+      }
+      console.log('done.')
+    }),
+  )
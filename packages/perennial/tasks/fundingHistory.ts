@@ -0,0 +1,77 @@
+import '@nomiclabs/hardhat-ethers'
+import { utils } from 'ethers'
+import { writeFile } from 'fs/promises'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { providers } from '@0xsequence/multicall'
+import { describingErrors, fundingHistory, syncEventStore, toCsv } from '../util'
+
+export default task(
+  'fundingHistory',
+  "Exports a Product's funding rate, utilization and open interest per settled oracle version",
+)
+  .addPositionalParam('product', 'Product Address to Export')
+  .addOptionalParam('fromVersion', 'First oracle version to export', undefined, types.int)
+  .addOptionalParam('toVersion', 'Last oracle version to export, defaults to the latest', undefined, types.int)
+  .addOptionalParam('fromTimestamp', 'Earliest oracle version timestamp to export', undefined, types.int)
+  .addOptionalParam('toTimestamp', 'Latest oracle version timestamp to export', undefined, types.int)
+  .addOptionalParam('batchSize', 'Number of versions read per batch', 100, types.int)
+  .addOptionalParam('format', 'Export format, csv or jsonl', 'csv')
+  .addOptionalParam('output', 'Output file path')
+  .setAction(
+    describingErrors(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+      const {
+        ethers,
+        deployments: { get },
+      } = HRE
+      if (!['csv', 'jsonl'].includes(args.format)) throw `Unsupported format: ${args.format}`
+      if (args.fromVersion === undefined && args.fromTimestamp === undefined)
+        console.log('No fromVersion or fromTimestamp given, exporting every version')
+
+      const multicall = new providers.MulticallProvider(ethers.provider)
+      const lens = (await ethers.getContractAt('IPerennialLens', (await get('PerennialLens_V01')).address)).connect(
+        multicall,
+      )
+
+      const store = await syncEventStore(HRE)
+      const points = await fundingHistory(
+        lens,
+        store,
+        args.product,
+        {
+          fromVersion: args.fromVersion,
+          toVersion: args.toVersion,
+          fromTimestamp: args.fromTimestamp,
+          toTimestamp: args.toTimestamp,
+        },
+        args.batchSize,
+      )
+      const rows = points.map(point => ({
+        version: point.version,
+        timestamp: point.timestamp,
+        price: utils.formatEther(point.price),
+        maker: utils.formatEther(point.position.maker),
+        taker: utils.formatEther(point.position.taker),
+        makerNotional: utils.formatEther(point.makerNotional),
+        takerNotional: utils.formatEther(point.takerNotional),
+        utilization: utils.formatEther(point.utilization),
+        annualizedRate: utils.formatEther(point.annualizedRate),
+        hourlyRate: utils.formatEther(point.hourlyRate),
+        makerValueDelta: utils.formatEther(point.valueDelta.maker),
+        takerValueDelta: utils.formatEther(point.valueDelta.taker),
+        makerShareDelta: utils.formatEther(point.shareDelta.maker),
+        takerShareDelta: utils.formatEther(point.shareDelta.taker),
+      }))
+      const report = args.format === 'csv' ? toCsv(rows) : rows.map(row => JSON.stringify(row) + '\n').join('')
+
+      if (args.output) {
+        await writeFile(args.output, report)
+        console.log(`Wrote ${rows.length} versions to ${args.output}`)
+        console.log('done.')
+      } else {
+        // Only the report goes to stdout, so it can be redirected to a file
+        process.stdout.write(report)
+        console.error('done.')
+      }
+    }),
+  )
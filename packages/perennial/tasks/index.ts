@@ -1,4 +1,20 @@
+export * from './accountPnl'
+export * from './auditSolvency'
 export * from './checkLiquidatable'
 export * from './checkSolvency'
+export * from '../../common/tasks/checkUpgrade'
+export * from './decodeError'
+export * from './explainTx'
+export * from './fundingHistory'
+export * from './indexEvents'
 export * from './listProducts'
 export * from './listProductUsers'
+export * from './liquidate'
+export * from './liquidationPrice'
+export * from './portfolio'
+export * from './previewTrade'
+export * from './rehearseProposal'
+export * from '../../common/tasks/seedStorageLayout'
+export * from './settleProducts'
+export * from './timelockProposal'
+export * from './upgrade'
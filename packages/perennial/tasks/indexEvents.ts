@@ -0,0 +1,16 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { describingErrors, syncEventStore } from '../util'
+
+export default task('indexEvents', 'Indexes protocol events into the local event store')
+  .addOptionalParam('chunkSize', 'Maximum number of blocks per query', undefined, types.int)
+  .addOptionalParam('confirmations', 'Number of blocks behind the chain head to index up to', undefined, types.int)
+  .setAction(
+    describingErrors(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+      const store = await syncEventStore(HRE, { chunkSize: args.chunkSize, confirmations: args.confirmations })
+      console.log(`Indexed up to block ${store.checkpoint}`)
+      console.log(`Found ${store.products().length} products and ${store.events().length} events`)
+      console.log('done.')
+    }),
+  )
@@ -0,0 +1,69 @@
+import '@nomiclabs/hardhat-ethers'
+import { formatEther, formatUnits, parseUnits } from 'ethers/lib/utils'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { providers } from '@0xsequence/multicall'
+import { describeError, findLiquidatable, liquidateAccounts, syncEventStore } from '../util'
+
+export default task('liquidate', 'Liquidates all liquidatable Product users')
+  .addPositionalParam('product', 'Product Address to Liquidate')
+  .addFlag('dryRun', 'Only simulate the liquidations')
+  .addFlag('watch', 'Keep running, checking again on every new block')
+  .addOptionalParam('maxGasPrice', 'Skip liquidating while the gas price (in gwei) is above this value')
+  .addOptionalParam('maxPerBlock', 'Maximum number of liquidations to send per block', 10, types.int)
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const {
+      ethers,
+      deployments: { get },
+    } = HRE
+    const multicall = new providers.MulticallProvider(ethers.provider)
+    const collateral = await ethers.getContractAt('ICollateral', (await get('Collateral_Proxy')).address)
+    const lens = (await ethers.getContractAt('IPerennialLens', (await get('PerennialLens_V01')).address)).connect(
+      multicall,
+    )
+    const maxGasPrice = args.maxGasPrice ? parseUnits(args.maxGasPrice, 'gwei') : undefined
+
+    const run = async () => {
+      const users = (await syncEventStore(HRE)).users(args.product)
+      const liquidatable = await findLiquidatable(lens, args.product, users)
+      console.log(`Product: ${args.product}. Found ${liquidatable.length} of ${users.length} users liquidatable`)
+      if (liquidatable.length === 0) return
+
+      const gasPrice = await ethers.provider.getGasPrice()
+      if (maxGasPrice && gasPrice.gt(maxGasPrice)) {
+        console.log(`Gas price ${formatUnits(gasPrice, 'gwei')} gwei above ceiling, skipping`)
+        return
+      }
+
+      const results = await liquidateAccounts(collateral, args.product, liquidatable, {
+        dryRun: args.dryRun,
+        maxLiquidations: args.maxPerBlock,
+      })
+      results.forEach(({ account, hash, fee }) => {
+        if (args.dryRun) console.log(`Would liquidate user: ${account}`)
+        else console.log(`Liquidated user: ${account}, fee: ${formatEther(fee || 0)}, tx: ${hash}`)
+      })
+    }
+
+    await run()
+    if (!args.watch) {
+      console.log('done.')
+      return
+    }
+
+    console.log('Watching for new blocks...')
+    let running = false
+    ethers.provider.on('block', async (blockNumber: number) => {
+      if (running) return
+      running = true
+      try {
+        console.log(`Block ${blockNumber}`)
+        await run()
+      } catch (e) {
+        console.error(describeError(e))
+      } finally {
+        running = false
+      }
+    })
+    await new Promise(() => undefined)
+  })
@@ -0,0 +1,41 @@
+import '@nomiclabs/hardhat-ethers'
+import { BigNumber } from 'ethers'
+import { formatEther } from 'ethers/lib/utils'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { providers } from '@0xsequence/multicall'
+import { describingErrors, estimateAccountLiquidation } from '../util'
+
+function formatPrice(price?: BigNumber): string {
+  return price === undefined ? 'none' : formatEther(price)
+}
+
+export default task('liquidationPrice', 'Estimates the oracle price at which an account becomes liquidatable')
+  .addPositionalParam('account', 'Account Address to Check')
+  .addPositionalParam('product', 'Product Address to Check')
+  .setAction(
+    describingErrors(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+      const {
+        ethers,
+        deployments: { get },
+      } = HRE
+      const multicall = new providers.MulticallProvider(ethers.provider)
+      const lens = (await ethers.getContractAt('IPerennialLens', (await get('PerennialLens_V01')).address)).connect(
+        multicall,
+      )
+
+      const estimate = await estimateAccountLiquidation(lens, args.product, args.account)
+
+      console.log(`
+      Account: ${args.account}, Product: ${args.product}
+        current price: ${formatEther(estimate.price)}
+        liquidatable: ${estimate.liquidatable}
+        liquidation price: ${formatPrice(estimate.liquidationPrice)}
+        distance: ${estimate.distance === undefined ? 'none' : `${formatEther(estimate.distance.mul(100))}%`}
+        liquidation price below: ${formatPrice(estimate.liquidationPriceBelow)}
+        liquidation price above: ${formatPrice(estimate.liquidationPriceAbove)}
+        max safe withdrawal: ${formatEther(estimate.maxWithdrawal)}
+    `)
+      console.log('done.')
+    }),
+  )
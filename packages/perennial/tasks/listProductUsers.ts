@@ -2,6 +2,7 @@ import '@nomiclabs/hardhat-ethers'
 import { task } from 'hardhat/config'
 import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
 import { writeFile } from 'fs/promises'
+import { syncEventStore } from '../util'
 
 export default task('listProductUsers', 'Lists all product users')
   .addPositionalParam('product', 'Product Address to Check')
@@ -11,12 +12,10 @@ export default task('listProductUsers', 'Lists all product users')
       ethers,
       deployments: { get },
     } = HRE
-    const collateral = await ethers.getContractAt('ICollateral', (await get('Collateral_Proxy')).address)
     const lens = await ethers.getContractAt('IPerennialLens', (await get('PerennialLens_V01')).address)
 
-    const deposits = await collateral.queryFilter(collateral.filters.Deposit(null, args.product))
     const usersCollateral = await Promise.all(
-      Array.from(new Set([...deposits].map(e => e.args.user.toLowerCase()))).map(async user => {
+      (await syncEventStore(HRE)).users(args.product).map(async user => {
         return { user, collateral: await lens.callStatic['collateral(address,address)'](user, args.product) }
       }),
     )
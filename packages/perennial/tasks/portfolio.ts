@@ -0,0 +1,87 @@
+import '@nomiclabs/hardhat-ethers'
+import { BigNumber } from 'ethers'
+import { formatEther } from 'ethers/lib/utils'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { providers } from '@0xsequence/multicall'
+import { describingErrors, getPortfolio, portfolioTotals, syncEventStore } from '../util'
+
+// `JSON.stringify` passes values through their own `toJSON` first, so BigNumbers are read from the holder
+function toJSON(this: { [key: string]: unknown }, key: string, value: unknown) {
+  const original = this[key]
+  if (BigNumber.isBigNumber(original)) return original.toString()
+  return value
+}
+
+export default task('portfolio', 'Lists the holdings of an account across all Products')
+  .addPositionalParam('account', 'Account Address to Check')
+  .addFlag('json', 'Print the portfolio as JSON')
+  .setAction(
+    describingErrors(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+      const {
+        ethers,
+        deployments: { get },
+      } = HRE
+      const multicall = new providers.MulticallProvider(ethers.provider)
+      const lens = (await ethers.getContractAt('IPerennialLens', (await get('PerennialLens_V01')).address)).connect(
+        multicall,
+      )
+
+      const products = (await syncEventStore(HRE)).accountProducts(args.account)
+      const entries = await getPortfolio(lens, args.account, products)
+      const totals = portfolioTotals(entries)
+
+      if (args.json) {
+        const portfolio = entries.map(({ product, symbol, snapshot, rewards }) => ({
+          product,
+          symbol,
+          collateral: snapshot.collateral,
+          position: { maker: snapshot.position.maker, taker: snapshot.position.taker },
+          pre: {
+            oracleVersion: snapshot.pre.oracleVersion,
+            openPosition: { maker: snapshot.pre.openPosition.maker, taker: snapshot.pre.openPosition.taker },
+            closePosition: { maker: snapshot.pre.closePosition.maker, taker: snapshot.pre.closePosition.taker },
+          },
+          maintenance: snapshot.maintenance,
+          liquidatable: snapshot.liquidatable,
+          fees: snapshot.fees,
+          exposure: snapshot.exposure,
+          rewards,
+        }))
+        console.log(JSON.stringify({ account: args.account, products: portfolio, totals }, toJSON, 2))
+        return
+      }
+
+      console.log(`Account: ${args.account}. Found ${entries.length} products`)
+      entries.forEach(({ product, symbol, snapshot, rewards }) => {
+        console.log(`
+        ${symbol} (${product})
+          collateral: ${formatEther(snapshot.collateral)}
+          position:
+            maker: ${formatEther(snapshot.position.maker)}
+            taker: ${formatEther(snapshot.position.taker)}
+          pending (version ${snapshot.pre.oracleVersion.toString()}):
+            open maker: ${formatEther(snapshot.pre.openPosition.maker)}
+            open taker: ${formatEther(snapshot.pre.openPosition.taker)}
+            close maker: ${formatEther(snapshot.pre.closePosition.maker)}
+            close taker: ${formatEther(snapshot.pre.closePosition.taker)}
+          maintenance: ${formatEther(snapshot.maintenance)}
+          liquidatable: ${snapshot.liquidatable}
+          fees: ${formatEther(snapshot.fees)}
+          exposure: ${formatEther(snapshot.exposure)}
+          unclaimed rewards: ${rewards.map(({ token, amount }) => `${formatEther(amount)} (${token})`).join(', ')}
+      `)
+      })
+      console.log(`
+        Totals
+          collateral: ${formatEther(totals.collateral)}
+          maintenance: ${formatEther(totals.maintenance)}
+          fees: ${formatEther(totals.fees)}
+          exposure: ${formatEther(totals.exposure)}
+          unclaimed rewards: ${totals.rewards
+            .map(({ token, amount }) => `${formatEther(amount)} (${token})`)
+            .join(', ')}
+    `)
+      console.log('done.')
+    }),
+  )
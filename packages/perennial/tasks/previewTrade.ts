@@ -0,0 +1,55 @@
+import '@nomiclabs/hardhat-ethers'
+import { formatEther, parseEther } from 'ethers/lib/utils'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { providers } from '@0xsequence/multicall'
+import { describingErrors, previewTrade, simulateTrade } from '../util'
+
+export default task('previewTrade', 'Quotes the fee, maintenance and funding of opening a position before sending it')
+  .addPositionalParam('account', 'Account Address to open the position for')
+  .addPositionalParam('product', 'Product Address to open the position in')
+  .addPositionalParam('side', 'Side of the position, make or take')
+  .addPositionalParam('amount', 'Amount of the position to open')
+  .setAction(
+    describingErrors(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+      const {
+        ethers,
+        deployments: { get },
+      } = HRE
+      if (args.side !== 'make' && args.side !== 'take') throw 'side must be make or take'
+
+      const multicall = new providers.MulticallProvider(ethers.provider)
+      const lens = (await ethers.getContractAt('IPerennialLens', (await get('PerennialLens_V01')).address)).connect(
+        multicall,
+      )
+      const product = await ethers.getContractAt('IProduct', args.product)
+      const amount = parseEther(args.amount)
+
+      const [preview, simulatedError] = await Promise.all([
+        previewTrade(lens, args.product, args.account, args.side, amount),
+        simulateTrade(product, args.account, args.side, amount),
+      ])
+
+      console.log(`
+      Account: ${args.account}, Product: ${args.product}, open ${args.side} ${args.amount}
+        position fee: ${formatEther(preview.positionFee)} (protocol share ${formatEther(preview.protocolPositionFee)})
+        collateral after fee: ${formatEther(preview.collateral)}
+        position after trade:
+          maker: ${formatEther(preview.accountPosition.maker)}
+          taker: ${formatEther(preview.accountPosition.taker)}
+        maintenance after trade: ${formatEther(preview.maintenance ?? 0)}
+        insufficient collateral: ${preview.insufficientCollateral}
+        insufficient liquidity: ${preview.insufficientLiquidity}
+        maker limit exceeded: ${preview.makerLimitExceeded}
+        hourly funding rate before trade: ${formatEther(preview.hourlyFundingRateBefore)}
+        hourly funding rate after trade: ${formatEther(preview.hourlyFundingRate)}
+        expected revert: ${preview.expectedError ?? 'none'}
+        simulated revert: ${simulatedError ?? 'none'}
+    `)
+      if (preview.expectedError !== simulatedError) {
+        console.log('Preview does not match simulation')
+        process.exitCode = 1
+      }
+      console.log('done.')
+    }),
+  )
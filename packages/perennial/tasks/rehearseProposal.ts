@@ -0,0 +1,139 @@
+import '@nomiclabs/hardhat-ethers'
+import { existsSync, readdirSync } from 'fs'
+import { writeFile } from 'fs/promises'
+import { join } from 'path'
+import { task } from 'hardhat/config'
+import { TASK_TEST_RUN_MOCHA_TESTS } from 'hardhat/builtin-tasks/task-names'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { FORK_ENABLED, FORK_NETWORK } from '../../common/hardhat.default.config'
+import { getMultisigAddress, getTimelockMinDelay } from '../../common/testutil/constants'
+import {
+  buildOperation,
+  decodeCall,
+  describeError,
+  diffLensSnapshots,
+  encodeExecute,
+  encodeSchedule,
+  getTimelockContracts,
+  loadProposal,
+  syncEventStore,
+  takeLensSnapshots,
+} from '../util'
+
+interface RehearsalStep {
+  name: string
+  status: 'pass' | 'fail' | 'skipped'
+  detail?: string
+}
+
+export default task('rehearseProposal', 'Rehearses a timelock proposal on a hardhat fork and reports the outcome')
+  .addPositionalParam('proposal', 'Proposal file')
+  .addOptionalParam('output', 'Write the markdown report to this file')
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const {
+      ethers,
+      network,
+      config,
+      deployments: { get },
+    } = HRE
+    if (network.name !== 'hardhat' || !FORK_ENABLED) throw 'Rehearsals must run on a hardhat fork (FORK_ENABLED=true)'
+
+    // These helpers import the hardhat runtime, which can't be imported while the config is loading
+    const { time, impersonate } = await import('../../common/testutil')
+
+    const contracts = await getTimelockContracts(HRE)
+    const { timelock } = contracts
+    const proposal = await loadProposal(args.proposal, contracts)
+    const operation = await buildOperation(proposal, contracts)
+    const delay = proposal.delay ?? getTimelockMinDelay(FORK_NETWORK)
+    const multisig = getMultisigAddress(FORK_NETWORK)
+    if (multisig === null) throw `No multisig configured for ${FORK_NETWORK}`
+
+    const lens = await ethers.getContractAt('IPerennialLens', (await get('PerennialLens_V01')).address)
+    const products = (await syncEventStore(HRE)).products()
+    const forkBlock = await ethers.provider.getBlockNumber()
+    const before = await takeLensSnapshots(lens, products)
+
+    const steps: RehearsalStep[] = []
+    const step = async (name: string, action: () => Promise<string | void>) => {
+      if (steps.some(({ status }) => status !== 'pass')) {
+        steps.push({ name, status: 'skipped' })
+        return
+      }
+      try {
+        steps.push({ name, status: 'pass', detail: (await action()) || undefined })
+      } catch (e) {
+        steps.push({ name, status: 'fail', detail: describeError(e) })
+      }
+    }
+
+    const signer = await impersonate.impersonateWithBalance(multisig, ethers.utils.parseEther('10'))
+    await step('schedule', async () => {
+      const tx = await signer.sendTransaction({
+        to: timelock.address,
+        data: encodeSchedule(timelock, operation, delay),
+      })
+      await tx.wait()
+      return `scheduled by ${multisig} with a delay of ${delay}s`
+    })
+    await step('advance time', async () => {
+      await time.increase(delay)
+      if (!(await timelock.isOperationReady(operation.id))) throw 'operation is not ready after the delay'
+    })
+    await step('execute', async () => {
+      const tx = await signer.sendTransaction({ to: timelock.address, data: encodeExecute(timelock, operation) })
+      await tx.wait()
+      if (!(await timelock.isOperationDone(operation.id))) throw 'operation is not done after execution'
+    })
+    // Taken before the verification suite runs, which may change the snapshotted state
+    const after = await takeLensSnapshots(lens, products)
+
+    const verificationDir = join(config.paths.tests, 'verification', FORK_NETWORK, 'core')
+    const testFiles = existsSync(verificationDir)
+      ? readdirSync(verificationDir)
+          .filter(file => file.endsWith('.test.ts'))
+          .map(file => join(verificationDir, file))
+      : []
+    await step('verification', async () => {
+      if (testFiles.length === 0) throw `no verification suite found in ${verificationDir}`
+      const failures = await HRE.run(TASK_TEST_RUN_MOCHA_TESTS, { testFiles })
+      if (failures > 0) throw `${failures} verification tests failed`
+      return testFiles.map(file => file.substring(config.paths.root.length + 1)).join(', ')
+    })
+
+    const diffs = diffLensSnapshots(before, after)
+    const passed = steps.every(({ status }) => status === 'pass')
+
+    const report = [
+      `# Governance rehearsal: ${passed ? 'PASS' : 'FAIL'}`,
+      '',
+      proposal.description ?? '',
+      '',
+      `- network: ${FORK_NETWORK} (forked at block ${forkBlock})`,
+      `- operation: ${operation.id}`,
+      `- predecessor: ${operation.predecessor}`,
+      `- salt: ${operation.salt}`,
+      '',
+      '## Actions',
+      '',
+      ...operation.calls.map(call => `- \`${JSON.stringify(decodeCall(call, contracts))}\``),
+      '',
+      '## Steps',
+      '',
+      '| step | status | detail |',
+      '| --- | --- | --- |',
+      ...steps.map(({ name, status, detail }) => `| ${name} | ${status} | ${detail ?? ''} |`),
+      '',
+      '## Lens snapshot diff',
+      '',
+      '| field | before | after |',
+      '| --- | --- | --- |',
+      ...diffs.map(({ path, before, after }) => `| ${path} | ${before ?? ''} | ${after ?? ''} |`),
+      '',
+    ].join('\n')
+
+    console.log(report)
+    if (args.output) await writeFile(args.output, report)
+    if (!passed) process.exitCode = 1
+    console.log('done.')
+  })
@@ -0,0 +1,65 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import {
+  describeError,
+  NonceManager,
+  SettleResult,
+  settleAccounts,
+  settleProducts,
+  syncEventStore,
+  topAccountsByExposure,
+} from '../util'
+
+export default task('settleProducts', 'Settles every product whose oracle has a new version')
+  .addFlag('watch', 'Keep running, polling the oracles every interval')
+  .addOptionalParam('interval', 'Polling interval in milliseconds', 15000, types.int)
+  .addOptionalParam('topAccounts', 'Also settle the top N accounts by exposure of each product', 0, types.int)
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const {
+      ethers,
+      deployments: { get },
+    } = HRE
+    const [signer] = await ethers.getSigners()
+    const nonceManager = new NonceManager(signer)
+    const lens = await ethers.getContractAt('IPerennialLens', (await get('PerennialLens_V01')).address)
+
+    const run = async () => {
+      const store = await syncEventStore(HRE)
+      const products = await Promise.all(store.products().map(address => ethers.getContractAt('IProduct', address)))
+
+      const results: SettleResult[] = await settleProducts(products, nonceManager)
+      for (const product of products) {
+        const accounts = await topAccountsByExposure(
+          lens,
+          product.address,
+          store.users(product.address),
+          args.topAccounts,
+        )
+        results.push(...(await settleAccounts(product, accounts, nonceManager)))
+      }
+
+      console.log(`Checked ${products.length} products, emitted ${results.length} settle events`)
+      results.forEach(({ product, account, preVersion, toVersion, hash }) => {
+        console.log(
+          `  ${account ? `AccountSettle ${account}` : 'Settle'} product: ${product}, ` +
+            `versions: ${preVersion.toString()} -> ${toVersion.toString()}, tx: ${hash}`,
+        )
+      })
+    }
+
+    await run()
+    if (!args.watch) {
+      console.log('done.')
+      return
+    }
+
+    for (;;) {
+      await new Promise(resolve => setTimeout(resolve, args.interval))
+      try {
+        await run()
+      } catch (e) {
+        console.error(describeError(e))
+      }
+    }
+  })
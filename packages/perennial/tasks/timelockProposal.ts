@@ -0,0 +1,82 @@
+import '@nomiclabs/hardhat-ethers'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { getTimelockMinDelay } from '../../common/testutil/constants'
+import {
+  buildOperation,
+  decodeCall,
+  decodeTimelockCalldata,
+  describeError,
+  encodeExecute,
+  encodeSchedule,
+  fetchScheduledOperation,
+  getTimelockContracts,
+  loadProposal,
+  TimelockOperation,
+} from '../util'
+
+const MODES = ['schedule', 'execute', 'decode']
+
+export default task('timelockProposal', 'Builds and decodes TimelockController proposals')
+  .addPositionalParam('mode', `One of ${MODES.join(', ')}`)
+  .addPositionalParam('input', 'Proposal file for schedule and execute, operation id or calldata for decode')
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const { ethers, network } = HRE
+    if (!MODES.includes(args.mode)) throw `Unknown mode ${args.mode}`
+
+    const contracts = await getTimelockContracts(HRE)
+    const { timelock } = contracts
+
+    const printOperation = async (operation: TimelockOperation) => {
+      console.log(`operation: ${operation.id}`)
+      console.log(`  predecessor: ${operation.predecessor}`)
+      console.log(`  salt: ${operation.salt}`)
+      operation.calls.forEach(call => console.log(`  action: ${JSON.stringify(decodeCall(call, contracts))}`))
+
+      const timestamp = await timelock.getTimestamp(operation.id)
+      if (timestamp.isZero()) console.log('  status: not scheduled')
+      else if (timestamp.eq(1)) console.log('  status: done')
+      else console.log(`  status: scheduled, executable at ${new Date(timestamp.toNumber() * 1000).toISOString()}`)
+    }
+
+    if (args.mode === 'decode') {
+      const operation = ethers.utils.isHexString(args.input, 32)
+        ? await fetchScheduledOperation(timelock, args.input)
+        : decodeTimelockCalldata(timelock, args.input)
+      await printOperation(operation)
+      console.log('done.')
+      return
+    }
+
+    const proposal = await loadProposal(args.input, contracts)
+    const operation = await buildOperation(proposal, contracts)
+    if (proposal.description) console.log(proposal.description)
+    await printOperation(operation)
+
+    if (args.mode === 'schedule') {
+      const delay = proposal.delay ?? getTimelockMinDelay(network.name)
+      const minDelay = await timelock.getMinDelay()
+      if (minDelay.gt(delay)) throw `Delay ${delay} is below the timelock's minimum delay of ${minDelay.toString()}`
+
+      const { timestamp } = await ethers.provider.getBlock('latest')
+      console.log(`  delay: ${delay}`)
+      console.log(`  earliest execution if scheduled now: ${new Date((timestamp + delay) * 1000).toISOString()}`)
+      console.log(`schedule on ${timelock.address} with calldata:`)
+      console.log(encodeSchedule(timelock, operation, delay))
+    } else {
+      if (!(await timelock.isOperationReady(operation.id))) console.log('  warning: operation is not ready to execute')
+      // Actions run from the timelock, simulated one by one against the current state
+      for (let i = 0; i < operation.calls.length; i++) {
+        const { target, value, data } = operation.calls[i]
+        try {
+          await ethers.provider.call({ from: timelock.address, to: target, value, data })
+        } catch (e) {
+          console.log(`  warning: action ${i + 1} reverts: ${describeError(e)}`)
+        }
+      }
+      console.log(`execute on ${timelock.address} with calldata:`)
+      console.log(encodeExecute(timelock, operation))
+    }
+
+    console.log('done.')
+  })
@@ -0,0 +1,171 @@
+import '@nomiclabs/hardhat-ethers'
+import { writeFile } from 'fs/promises'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { FORK_ENABLED, FORK_NETWORK, OPTIMIZER_ENABLED } from '../../common/hardhat.default.config'
+import { getTimelockMinDelay } from '../../common/testutil/constants'
+import { checkUpgrade } from '../../common/testutil/storageLayout'
+import {
+  buildOperation,
+  currentImplementation,
+  describeError,
+  diffLensSnapshots,
+  encodeAction,
+  encodeExecute,
+  encodeSchedule,
+  findUpgradeRehearsal,
+  getTimelockContracts,
+  isUpgradeTarget,
+  recordUpgradeRehearsal,
+  sampleAccounts,
+  syncEventStore,
+  takeLensSnapshots,
+  TimelockProposal,
+  upgradeAction,
+  upgradeBuildHash,
+  UPGRADE_TARGETS,
+} from '../util'
+
+const DEFAULT_SAMPLED_USERS = 10
+
+export default task('upgrade', 'Deploys a new implementation and upgrades its proxy or the product beacon')
+  .addPositionalParam('target', `One of ${UPGRADE_TARGETS.join(', ')}`)
+  .addOptionalParam('users', 'Users sampled per product for fork verification', DEFAULT_SAMPLED_USERS.toString())
+  .addOptionalParam('allow', 'Comma separated snapshot fields that are expected to change, e.g. productInfo.name')
+  .addOptionalParam('output', 'Write the timelock proposal to this file when the upgrade goes through the timelock')
+  .addFlag('unrehearsed', 'Deploy to a live network without a passing fork rehearsal of the same build')
+  .addFlag('allowMissing', 'Upgrade an implementation with no recorded storage layout, without checking it')
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const {
+      ethers,
+      network,
+      getNamedAccounts,
+      deployments: { deploy, fetchIfDifferent, get, save, delete: deleteDeployment },
+    } = HRE
+    const target: string = args.target
+    if (!isUpgradeTarget(target)) throw `Unsupported upgrade target ${target}`
+    const isFork = network.name === 'hardhat' && FORK_ENABLED
+    const { deployer } = await getNamedAccounts()
+    if (!OPTIMIZER_ENABLED) throw `Run with OPTIMIZER_ENABLED=true so the production build of ${target} is deployed`
+
+    const layoutCheck = await checkUpgrade(HRE, `${target}_Impl`)
+    const layoutErrors = layoutCheck.issues.filter(({ severity }) => severity === 'error')
+    layoutCheck.issues.forEach(({ severity, variable, message }) => console.log(`${severity}: ${variable} ${message}`))
+    if (layoutErrors.length > 0) throw `Refusing to upgrade ${target}, its storage layout changed unsafely`
+    if (layoutCheck.source === 'none') {
+      if (!args.allowMissing)
+        throw `No recorded storage layout for ${target}_Impl, snapshot one with seedStorageLayout or pass --allowMissing`
+      console.log(`warning: no recorded storage layout for ${target}_Impl`)
+    }
+
+    const implementationArgs = (await get(`${target}_Impl`)).args ?? []
+    const { differences } = await fetchIfDifferent(`${target}_Impl`, {
+      contract: target,
+      args: implementationArgs,
+      from: deployer,
+    })
+    if (!differences) {
+      console.log(`${target}_Impl is already the current build`)
+      console.log('done.')
+      return
+    }
+
+    // Live upgrades need a passing fork rehearsal of the same build
+    const buildHash = await upgradeBuildHash(HRE, target, implementationArgs)
+    if (network.live && !(await findUpgradeRehearsal(HRE, network.name, target, buildHash))) {
+      if (!args.unrehearsed)
+        throw `No passing ${network.name} fork rehearsal of this ${target} build, run with FORK_ENABLED=true first`
+      console.log(`warning: upgrading ${target} without a fork rehearsal of this build`)
+    }
+
+    // Redeploy with the constructor arguments of the current implementation. The new implementation is only
+    // recorded as `${target}_Impl` once the upgrade has gone through.
+    const implementation = await deploy(`${target}_Impl_Next`, {
+      contract: target,
+      args: implementationArgs,
+      from: deployer,
+      log: true,
+      autoMine: true,
+    })
+    const recordImplementation = async () => {
+      await save(`${target}_Impl`, implementation)
+      await deleteDeployment(`${target}_Impl_Next`)
+      console.log(`recorded ${implementation.address} as ${target}_Impl`)
+    }
+
+    const contracts = await getTimelockContracts(HRE)
+    const { timelock } = contracts
+    const current = await currentImplementation(target, contracts)
+    if (current.implementation.toLowerCase() === implementation.address.toLowerCase()) {
+      console.log(`${target} already points at ${implementation.address}`)
+      await recordImplementation()
+      console.log('done.')
+      return
+    }
+    const call = await encodeAction(upgradeAction(target, implementation.address), contracts)
+    console.log(`upgrading ${target} from ${current.implementation} to ${implementation.address}`)
+
+    if (isFork) {
+      const { impersonate } = await import('../../common/testutil')
+      const lens = await ethers.getContractAt('IPerennialLens', (await get('PerennialLens_V01')).address)
+      const store = await syncEventStore(HRE)
+      const products = store.products()
+      const users = products.reduce(
+        (acc: { [product: string]: string[] }, product) => ({
+          ...acc,
+          [product]: sampleAccounts(store.users(product), Number(args.users)),
+        }),
+        {},
+      )
+      const allowed: string[] = args.allow ? args.allow.split(',') : []
+
+      const before = await takeLensSnapshots(lens, products, users)
+      const owner = await impersonate.impersonateWithBalance(current.owner, ethers.utils.parseEther('10'))
+      try {
+        await (await owner.sendTransaction({ to: call.target, data: call.data })).wait()
+      } catch (e) {
+        throw `Upgrading ${target} on a ${FORK_NETWORK} fork failed: ${describeError(e)}`
+      }
+      const diffs = diffLensSnapshots(before, await takeLensSnapshots(lens, products, users)).filter(
+        ({ path }) => !allowed.some(field => path.endsWith(`.${field}`)),
+      )
+
+      diffs.forEach(({ path, before, after }) => console.log(`  ${path}: ${before ?? ''} -> ${after ?? ''}`))
+      if (diffs.length > 0) {
+        console.log(`${diffs.length} snapshot fields of ${FORK_NETWORK} changed unexpectedly, refusing the upgrade`)
+        process.exitCode = 1
+      } else {
+        console.log(`verified ${products.length} products and their sampled users on a ${FORK_NETWORK} fork`)
+        const block = await ethers.provider.getBlockNumber()
+        await recordUpgradeRehearsal(HRE, { target, network: FORK_NETWORK, buildHash, block })
+        await recordImplementation()
+      }
+    } else if (current.owner.toLowerCase() === deployer.toLowerCase()) {
+      try {
+        const tx = await (await ethers.getSigner(deployer)).sendTransaction({ to: call.target, data: call.data })
+        await tx.wait()
+        console.log(`upgraded in ${tx.hash}`)
+      } catch (e) {
+        throw `Upgrading ${target} failed: ${describeError(e)}`
+      }
+      await recordImplementation()
+    } else if (current.owner.toLowerCase() === timelock.address.toLowerCase()) {
+      const proposal: TimelockProposal = {
+        description: `Upgrade ${target} to ${implementation.address}`,
+        actions: [upgradeAction(target, implementation.address)],
+      }
+      const operation = await buildOperation(proposal, contracts)
+      console.log(`operation: ${operation.id}`)
+      console.log(`schedule calldata for ${timelock.address}:`)
+      console.log(encodeSchedule(timelock, operation, getTimelockMinDelay(network.name)))
+      console.log(`execute calldata for ${timelock.address}:`)
+      console.log(encodeExecute(timelock, operation))
+      if (args.output) await writeFile(args.output, JSON.stringify(proposal, null, 2))
+      console.log(`rerun once the operation has executed to record the new ${target}_Impl`)
+    } else {
+      console.log(`calldata for ${current.owner} to send to ${call.target}:`)
+      console.log(call.data)
+      console.log(`rerun once the upgrade has executed to record the new ${target}_Impl`)
+    }
+    console.log('done.')
+  })
@@ -0,0 +1,90 @@
+import { expect } from 'chai'
+import HRE from 'hardhat'
+import { utils } from 'ethers'
+
+import { InstanceVars, deployProtocol, createProduct, depositTo } from '../helpers/setupHelpers'
+import { syncEventStore } from '../helpers/indexerHelpers'
+import {
+  ICollateral__factory,
+  IController__factory,
+  IERC20__factory,
+  IPerennialLens__factory,
+} from '../../../types/generated'
+import { auditProduct, getTreasuries, reconcileCollateral } from '../../../util'
+
+const { ethers } = HRE
+
+describe('Solvency Audit', () => {
+  let instanceVars: InstanceVars
+  let startBlock: number
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    startBlock = await ethers.provider.getBlockNumber()
+  })
+
+  it('audits products and reconciles the collateral balance', async () => {
+    const POSITION = utils.parseEther('0.0001')
+    const { owner, user, userB, treasuryA, treasuryB, chainlink, dsu } = instanceVars
+    const controller = IController__factory.connect(instanceVars.controller.address, owner)
+    const collateral = ICollateral__factory.connect(instanceVars.collateral.address, owner)
+    const lens = IPerennialLens__factory.connect(instanceVars.lens.address, owner)
+
+    const product = await createProduct(instanceVars)
+    await depositTo(instanceVars, user, product, utils.parseEther('1000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('1000'))
+    await product.connect(user).openMake(POSITION)
+    await product.connect(userB).openTake(POSITION)
+    await chainlink.next()
+    await chainlink.next()
+    await product.settle()
+
+    const store = await syncEventStore(instanceVars, startBlock)
+    const report = await auditProduct(lens, product.address, store.users(product.address))
+    expect(report.users).to.equal(2)
+    expect(report.solvent).to.be.true
+    expect(report.shortfall).to.equal(0)
+    expect(report.collateral).to.equal(await collateral['collateral(address)'](product.address))
+    expect(report.userCollateral.add(report.delta)).to.equal(report.collateral)
+
+    const treasuries = await getTreasuries(controller, [product.address])
+    expect(treasuries).to.deep.equal([treasuryA.address.toLowerCase(), treasuryB.address.toLowerCase()])
+
+    const reconciliation = await reconcileCollateral(
+      collateral,
+      IERC20__factory.connect(dsu.address, owner),
+      [product.address],
+      treasuries,
+    )
+    expect(reconciliation.balance).to.equal(await dsu.balanceOf(collateral.address))
+    expect(reconciliation.fees).to.be.gt(0)
+    expect(reconciliation.delta).to.equal(0)
+    expect(reconciliation.solvent).to.be.true
+  })
+
+  it('reports a product with shortfall as insolvent', async () => {
+    const POSITION = utils.parseEther('0.0001')
+    const { owner, user, userB, chainlink } = instanceVars
+    const lens = IPerennialLens__factory.connect(instanceVars.lens.address, owner)
+
+    const product = await createProduct(instanceVars)
+    await depositTo(instanceVars, user, product, utils.parseEther('1000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('1000'))
+    await product.connect(user).openMake(POSITION)
+    await product.connect(userB).openTake(POSITION)
+    await chainlink.next()
+    await product.settle()
+
+    // The maker's loss exceeds its collateral
+    await chainlink.nextWithPriceModification(price => price.mul(2))
+    await product.settle()
+    await product.settleAccount(user.address)
+    await product.settleAccount(userB.address)
+
+    const store = await syncEventStore(instanceVars, startBlock)
+    const report = await auditProduct(lens, product.address, store.users(product.address))
+    expect(report.shortfall).to.be.gt(0)
+    expect(report.collateral.add(report.shortfall).sub(report.userCollateral)).to.be.gte(0)
+    expect(report.solvent).to.be.false
+  })
+})
@@ -0,0 +1,104 @@
+import { expect } from 'chai'
+import HRE from 'hardhat'
+import { constants, utils } from 'ethers'
+
+import { InstanceVars, deployProtocol, createProduct, depositTo } from '../helpers/setupHelpers'
+import { syncEventStore } from '../helpers/indexerHelpers'
+import { IProduct, IProduct__factory, Product } from '../../../types/generated'
+import { AccountPnlReport, accountPnl } from '../../../util'
+
+const { ethers } = HRE
+
+describe('Account PnL', () => {
+  let instanceVars: InstanceVars
+  let product: Product
+  let startBlock: number
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    startBlock = await ethers.provider.getBlockNumber()
+    product = await createProduct(instanceVars)
+
+    await product.updateMakerFee(utils.parseEther('0.01'))
+    await product.updateTakerFee(utils.parseEther('0.02'))
+    await product.updatePositionFee(utils.parseEther('0.5'))
+  })
+
+  async function report(account: string): Promise<AccountPnlReport> {
+    const { owner, controller, collateral } = instanceVars
+    const store = await syncEventStore(instanceVars, startBlock)
+    const iProduct: IProduct = IProduct__factory.connect(product.address, owner)
+    return accountPnl(store, { controller, collateral, product: iProduct }, account)
+  }
+
+  function expectAttributedTo(result: AccountPnlReport) {
+    const { totals } = result
+    const attributed = Object.values(totals).reduce((sum, value) => sum.add(value), constants.Zero)
+    expect(attributed).to.equal(result.collateral)
+    expect(result.entries[result.entries.length - 1].collateral).to.equal(result.collateral)
+    expect(result.matches).to.be.true
+  }
+
+  it('attributes maker and taker collateral changes', async () => {
+    const MAKER_POSITION = utils.parseEther('0.001')
+    const TAKER_POSITION = utils.parseEther('0.0005')
+    const { user, userB, collateral, chainlink } = instanceVars
+
+    await depositTo(instanceVars, user, product, utils.parseEther('20000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('20000'))
+    await product.connect(user).openMake(MAKER_POSITION)
+    await product.connect(userB).openTake(TAKER_POSITION)
+    for (let i = 0; i < 3; i++) {
+      await chainlink.next()
+      await product.settle()
+    }
+    await product.connect(userB).closeTake(TAKER_POSITION)
+    await chainlink.next()
+    await product.settleAccount(user.address)
+    await product.settleAccount(userB.address)
+    await collateral.connect(userB).withdrawTo(userB.address, product.address, utils.parseEther('1000'))
+
+    const maker = await report(user.address)
+    expectAttributedTo(maker)
+    expect(maker.totals.deposits).to.equal(utils.parseEther('20000'))
+    expect(maker.totals.positionFees).to.be.lt(0)
+    expect(maker.totals.positionFeeRebates).to.be.gt(0)
+    expect(maker.totals.funding).to.be.gt(0)
+    expect(maker.entries.map(({ type }) => type)).to.include.members(['deposit', 'MakeOpened', 'settlement'])
+    expect(maker.entries.find(({ type }) => type === 'MakeOpened')?.position.maker).to.equal(MAKER_POSITION)
+
+    const taker = await report(userB.address)
+    expectAttributedTo(taker)
+    expect(taker.totals.withdrawals).to.equal(utils.parseEther('-1000'))
+    expect(taker.totals.funding).to.be.lt(0)
+    expect(taker.totals.liquidationFees).to.equal(0)
+    expect(taker.entries.find(({ type }) => type === 'TakeClosed')?.position.taker).to.equal(0)
+
+    // Takers and makers exchange price PnL, less what is lost to rounding
+    expect(maker.totals.pricePnl.add(taker.totals.pricePnl).abs()).to.be.lt(1000)
+  })
+
+  it('attributes liquidation fees', async () => {
+    const POSITION = utils.parseEther('0.0001')
+    const { user, userB, collateral, chainlink } = instanceVars
+
+    await depositTo(instanceVars, user, product, utils.parseEther('500'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('20000'))
+    await product.connect(user).openMake(POSITION)
+    await product.connect(userB).openTake(POSITION.div(2))
+
+    await chainlink.nextWithPriceModification(price => price.add(1000e8))
+    await product.settle()
+    await product.settleAccount(user.address)
+    await collateral.connect(userB).liquidate(user.address, product.address)
+    await chainlink.next()
+    await product.settleAccount(user.address)
+
+    const result = await report(user.address)
+    expectAttributedTo(result)
+    expect(result.totals.liquidationFees).to.be.lt(0)
+    expect(result.totals.pricePnl).to.be.lt(0)
+    expect(result.entries.map(({ type }) => type)).to.include.members(['MakeClosed', 'liquidation'])
+    expect(result.entries[result.entries.length - 1].position.maker).to.equal(0)
+  })
+})
@@ -0,0 +1,81 @@
+import { expect } from 'chai'
+import 'hardhat'
+import { utils } from 'ethers'
+
+import { InstanceVars, deployProtocol, createProduct, depositTo } from '../helpers/setupHelpers'
+import { Product } from '../../../types/generated'
+import { decodeError, describeError, errorRegistry } from '../../../util'
+
+describe('Error decoder', () => {
+  let instanceVars: InstanceVars
+  let product: Product
+
+  const POSITION = utils.parseEther('0.001')
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    product = await createProduct(instanceVars)
+  })
+
+  async function revertOf(call: Promise<unknown>): Promise<unknown> {
+    try {
+      await call
+    } catch (e) {
+      return e
+    }
+    expect.fail('call did not revert')
+  }
+
+  it('decodes product reverts with fixed point arguments', async () => {
+    const { user, userB, chainlink } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('20000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('20000'))
+    await product.connect(user).openMake(POSITION)
+    await chainlink.next()
+    await product.settle()
+
+    const error = await revertOf(product.connect(userB).callStatic.openTake(POSITION.mul(2)))
+    const decoded = decodeError(error)
+    expect(decoded?.name).to.equal('ProductInsufficientLiquidityError')
+    expect(decoded?.signature).to.equal('ProductInsufficientLiquidityError(uint256)')
+    expect(decoded?.args).to.deep.equal({ socializationFactor: '0.5' })
+    expect(describeError(error)).to.equal(
+      'ProductInsufficientLiquidityError(socializationFactor=0.5): ' +
+        'Takers would exceed makers, leaving a socialization factor of 0.5',
+    )
+  })
+
+  it('decodes collateral reverts', async () => {
+    const { user, userB, collateral } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('1000'))
+
+    const decoded = decodeError(
+      await revertOf(collateral.connect(userB).callStatic.liquidate(user.address, product.address)),
+    )
+    expect(decoded?.name).to.equal('CollateralCantLiquidate')
+    expect(decoded?.args).to.deep.equal({ totalMaintenance: '0.0', totalCollateral: '1000.0' })
+  })
+
+  it('decodes vault errors and builtin reverts', async () => {
+    expect(decodeError(utils.id('BalancedVaultDepositLimitExceeded()').slice(0, 10))?.explanation).to.equal(
+      "The deposit would exceed the vault's deposit limit",
+    )
+
+    const reason = new utils.Interface(['error Error(string)']).encodeErrorResult('Error', ['not allowed'])
+    expect(decodeError(reason)).to.deep.equal({
+      name: 'Error',
+      signature: 'Error(string)',
+      args: { reason: 'not allowed' },
+      explanation: 'not allowed',
+    })
+
+    const panic = new utils.Interface(['error Panic(uint256)']).encodeErrorResult('Panic', [0x11])
+    expect(decodeError(panic)?.explanation).to.equal('arithmetic overflow or underflow')
+  })
+
+  it('registers errors once per selector', async () => {
+    expect(errorRegistry.size).to.be.gt(40)
+    expect(decodeError('0xdeadbeef')).to.be.undefined
+    expect(describeError(new Error('boom'))).to.equal('boom')
+  })
+})
@@ -0,0 +1,110 @@
+import { expect } from 'chai'
+import HRE from 'hardhat'
+import { utils } from 'ethers'
+
+import { InstanceVars, deployProtocol, createProduct, depositTo } from '../helpers/setupHelpers'
+import { syncEventStore } from '../helpers/indexerHelpers'
+import { Product } from '../../../types/generated'
+import { EventStore, fundingHistory } from '../../../util'
+
+const { ethers } = HRE
+
+describe('Funding history', () => {
+  let instanceVars: InstanceVars
+  let product: Product
+  let startBlock: number
+
+  const POSITION = utils.parseEther('0.001')
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    startBlock = await ethers.provider.getBlockNumber()
+    product = await createProduct(instanceVars)
+
+    const { user, userB, chainlink } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('20000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('20000'))
+    await product.connect(user).openMake(POSITION)
+    await product.connect(userB).openTake(POSITION.div(2))
+    for (let i = 0; i < 4; i++) {
+      await chainlink.next()
+      await product.settle()
+    }
+  })
+
+  async function store(): Promise<EventStore> {
+    return syncEventStore(instanceVars, startBlock)
+  }
+
+  it('exports every version in order', async () => {
+    const { lens } = instanceVars
+    const latestVersion = (await product['latestVersion()']()).toNumber()
+    const fromVersion = latestVersion - 3
+
+    // A batch size smaller than the range walks back over several batches
+    const points = await fundingHistory(lens, await store(), product.address, { fromVersion }, 2)
+    expect(points.map(({ version }) => version)).to.deep.equal([0, 1, 2, 3].map(i => fromVersion + i))
+
+    for (const point of points) {
+      const [oracleVersion, position, value, previousValue, share, previousShare] = await Promise.all([
+        product.atVersion(point.version),
+        product.positionAtVersion(point.version),
+        product.valueAtVersion(point.version),
+        product.valueAtVersion(point.version - 1),
+        product.shareAtVersion(point.version),
+        product.shareAtVersion(point.version - 1),
+      ])
+      expect(point.timestamp).to.equal(oracleVersion.timestamp)
+      expect(point.price).to.equal(oracleVersion.price)
+      expect(point.position.maker).to.equal(position.maker)
+      expect(point.position.taker).to.equal(position.taker)
+      expect(point.hourlyRate).to.equal((await product.rate(position)).mul(60 * 60))
+      expect(point.valueDelta.maker).to.equal(value.maker.sub(previousValue.maker))
+      expect(point.valueDelta.taker).to.equal(value.taker.sub(previousValue.taker))
+      expect(point.shareDelta.taker).to.equal(share.taker.sub(previousShare.taker))
+    }
+
+    const last = points[points.length - 1]
+    expect(last.utilization).to.equal(utils.parseEther('0.5'))
+    expect(last.takerNotional).to.equal(last.makerNotional.div(2))
+  })
+
+  it('filters versions by timestamp', async () => {
+    const { lens } = instanceVars
+    const latestVersion = (await product['latestVersion()']()).toNumber()
+    const [from, to] = await Promise.all([product.atVersion(latestVersion - 2), product.atVersion(latestVersion - 1)])
+
+    const points = await fundingHistory(lens, await store(), product.address, {
+      fromTimestamp: from.timestamp.toNumber(),
+      toTimestamp: to.timestamp.toNumber(),
+    })
+    expect(points.map(({ version }) => version)).to.deep.equal([latestVersion - 2, latestVersion - 1])
+  })
+
+  it('skips versions that were not settled', async () => {
+    const { lens, chainlink } = instanceVars
+    const previousVersion = (await product['latestVersion()']()).toNumber()
+    await chainlink.next()
+    await chainlink.next()
+    await product.settle()
+    const latestVersion = (await product['latestVersion()']()).toNumber()
+    expect(latestVersion).to.equal(previousVersion + 2)
+
+    const points = await fundingHistory(lens, await store(), product.address, { fromVersion: previousVersion })
+    expect(points.map(({ version }) => version)).to.deep.equal([previousVersion, latestVersion])
+
+    // The skipped version was never stamped, so the deltas span both versions
+    const [value, previousValue, share, previousShare] = await Promise.all([
+      product.valueAtVersion(latestVersion),
+      product.valueAtVersion(previousVersion),
+      product.shareAtVersion(latestVersion),
+      product.shareAtVersion(previousVersion),
+    ])
+    const last = points[1]
+    expect(last.valueDelta.maker).to.not.equal(0)
+    expect(last.valueDelta.maker).to.equal(value.maker.sub(previousValue.maker))
+    expect(last.valueDelta.taker).to.equal(value.taker.sub(previousValue.taker))
+    expect(last.shareDelta.taker).to.equal(share.taker.sub(previousShare.taker))
+    expect(last.position.maker).to.equal(POSITION)
+  })
+})
@@ -0,0 +1,210 @@
+import { expect } from 'chai'
+import 'hardhat'
+import { BigNumber, constants, utils } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+
+import { InstanceVars, deployProtocol, createProduct, depositTo } from '../helpers/setupHelpers'
+import { createPayoffDefinition } from '../../../../common/testutil/types'
+import { Product, Product__factory } from '../../../types/generated'
+import { estimateAccountLiquidation, estimateLiquidation } from '../../../util'
+
+// Chainlink reports 8 decimal prices, while estimates are in 18 decimals
+const CHAINLINK_TO_ORACLE = BigNumber.from(10).pow(10)
+const NO_PRE = {
+  oracleVersion: constants.Zero,
+  openPosition: { maker: constants.Zero, taker: constants.Zero },
+  closePosition: { maker: constants.Zero, taker: constants.Zero },
+}
+
+describe('Liquidation price', () => {
+  let instanceVars: InstanceVars
+  let product: Product
+
+  const POSITION = utils.parseEther('0.001')
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    product = await createProduct(instanceVars)
+  })
+
+  async function moveOracleTo(price: BigNumber | undefined, numerator: number, denominator: number): Promise<void> {
+    if (price === undefined) expect.fail('no liquidation price estimated')
+    await instanceVars.chainlink.nextWithPriceModification(() =>
+      price.mul(numerator).div(denominator).div(CHAINLINK_TO_ORACLE),
+    )
+    await product.settle()
+  }
+
+  // Recreates the product with a passthrough payoff, so the product price is the (negated if short) oracle price
+  async function createPassthroughProduct(short: boolean): Promise<Product> {
+    const { owner, controller, lens } = instanceVars
+    const productInfo = {
+      ...(await lens.callStatic.info(product.address)),
+      payoffDefinition: createPayoffDefinition({ short }),
+    }
+    const productAddress = await controller.callStatic.createProduct(1, productInfo)
+    await controller.createProduct(1, productInfo)
+    return Product__factory.connect(productAddress, owner)
+  }
+
+  async function liquidatable(account: SignerWithAddress): Promise<boolean> {
+    await product.settleAccount(account.address)
+    return instanceVars.collateral.liquidatable(account.address, product.address)
+  }
+
+  it('estimates the liquidation price of a taker', async () => {
+    const { user, userB, lens, chainlink } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('20000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('6000'))
+    await product.connect(user).openMake(POSITION)
+    await product.connect(userB).openTake(POSITION)
+    await chainlink.next()
+    await product.settle()
+
+    const estimate = await estimateAccountLiquidation(lens, product.address, userB.address)
+    expect(estimate.liquidatable).to.be.false
+    expect(estimate.liquidationPriceAbove).to.be.undefined
+    expect(estimate.liquidationPrice).to.equal(estimate.liquidationPriceBelow)
+    expect(estimate.distance).to.be.lt(0)
+
+    await moveOracleTo(estimate.liquidationPrice, 101, 100)
+    expect(await liquidatable(userB)).to.be.false
+    await moveOracleTo(estimate.liquidationPrice, 99, 100)
+    expect(await liquidatable(userB)).to.be.true
+  })
+
+  it('estimates the liquidation price of a maker', async () => {
+    const { user, userB, lens, chainlink } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('5000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('20000'))
+    await product.connect(user).openMake(POSITION)
+    await product.connect(userB).openTake(POSITION)
+    await chainlink.next()
+    await product.settle()
+
+    const estimate = await estimateAccountLiquidation(lens, product.address, user.address)
+    expect(estimate.liquidatable).to.be.false
+    expect(estimate.liquidationPriceBelow).to.be.undefined
+    expect(estimate.liquidationPrice).to.equal(estimate.liquidationPriceAbove)
+    expect(estimate.distance).to.be.gt(0)
+
+    await moveOracleTo(estimate.liquidationPrice, 99, 100)
+    expect(await liquidatable(user)).to.be.false
+    await moveOracleTo(estimate.liquidationPrice, 101, 100)
+    expect(await liquidatable(user)).to.be.true
+  })
+
+  it('estimates the maximum safe withdrawal', async () => {
+    const { user, userB, lens, collateral, chainlink } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('20000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('6000'))
+    await product.connect(user).openMake(POSITION)
+    await product.connect(userB).openTake(POSITION)
+    await chainlink.next()
+    await product.settle()
+
+    const { maxWithdrawal } = await estimateAccountLiquidation(lens, product.address, userB.address)
+    await expect(collateral.connect(userB).withdrawTo(userB.address, product.address, maxWithdrawal.add(1))).to.be
+      .reverted
+    await expect(collateral.connect(userB).withdrawTo(userB.address, product.address, maxWithdrawal)).to.not.be.reverted
+  })
+
+  it('estimates the maximum safe withdrawal with an unsettled position', async () => {
+    const { user, userB, lens, collateral, chainlink } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('20000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('6000'))
+    await product.connect(user).openMake(POSITION)
+    await chainlink.next()
+    await product.settle()
+    await product.connect(userB).openTake(POSITION)
+
+    const estimate = await estimateAccountLiquidation(lens, product.address, userB.address)
+    expect(estimate.liquidationPrice).to.not.be.undefined
+    expect(estimate.maxWithdrawal).to.be.lt(utils.parseEther('6000'))
+    await expect(
+      collateral.connect(userB).withdrawTo(userB.address, product.address, estimate.maxWithdrawal.add(1)),
+    ).to.be.revertedWithCustomError(collateral, 'CollateralInsufficientCollateralError')
+    await expect(collateral.connect(userB).withdrawTo(userB.address, product.address, estimate.maxWithdrawal)).to.not.be
+      .reverted
+  })
+
+  it('allows withdrawing everything without a position', async () => {
+    const { user, lens } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('1000'))
+
+    const estimate = await estimateAccountLiquidation(lens, product.address, user.address)
+    expect(estimate.liquidatable).to.be.false
+    expect(estimate.liquidationPrice).to.be.undefined
+    expect(estimate.maxWithdrawal).to.equal(utils.parseEther('1000'))
+  })
+
+  it('estimates the liquidation price of a long taker', async () => {
+    const { user, userB, lens, chainlink } = instanceVars
+    product = await createPassthroughProduct(false)
+    await depositTo(instanceVars, user, product, utils.parseEther('20000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('600'))
+    await product.connect(user).openMake(utils.parseEther('0.5'))
+    await product.connect(userB).openTake(utils.parseEther('0.5'))
+    await chainlink.next()
+    await product.settle()
+
+    const estimate = await estimateAccountLiquidation(lens, product.address, userB.address)
+    expect(estimate.liquidatable).to.be.false
+    expect(estimate.liquidationPriceAbove).to.be.undefined
+    expect(estimate.liquidationPrice).to.equal(estimate.liquidationPriceBelow)
+    expect(estimate.distance).to.be.lt(0)
+
+    await moveOracleTo(estimate.liquidationPrice, 101, 100)
+    expect(await liquidatable(userB)).to.be.false
+    await moveOracleTo(estimate.liquidationPrice, 99, 100)
+    expect(await liquidatable(userB)).to.be.true
+  })
+
+  it('estimates the liquidation price of a short taker', async () => {
+    const { user, userB, lens, chainlink } = instanceVars
+    product = await createPassthroughProduct(true)
+    await depositTo(instanceVars, user, product, utils.parseEther('20000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('600'))
+    await product.connect(user).openMake(utils.parseEther('0.5'))
+    await product.connect(userB).openTake(utils.parseEther('0.5'))
+    await chainlink.next()
+    await product.settle()
+
+    const estimate = await estimateAccountLiquidation(lens, product.address, userB.address)
+    expect(estimate.liquidatable).to.be.false
+    expect(estimate.liquidationPriceBelow).to.be.undefined
+    expect(estimate.liquidationPrice).to.equal(estimate.liquidationPriceAbove)
+    expect(estimate.distance).to.be.gt(0)
+
+    await moveOracleTo(estimate.liquidationPrice, 99, 100)
+    expect(await liquidatable(userB)).to.be.false
+    await moveOracleTo(estimate.liquidationPrice, 101, 100)
+    expect(await liquidatable(userB)).to.be.true
+  })
+
+  it('does not allow withdrawing below the minimum collateral', async () => {
+    const position = { maker: constants.Zero, taker: utils.parseEther('1') }
+    const estimate = await estimateLiquidation({
+      snapshot: { collateral: utils.parseEther('400'), maintenance: utils.parseEther('100'), pre: NO_PRE, position },
+      maintenance: utils.parseEther('0.1'),
+      price: utils.parseEther('1000'),
+      globalPosition: position,
+      payoff: async price => price,
+      minCollateral: utils.parseEther('500'),
+    })
+    expect(estimate.maxWithdrawal).to.equal(0)
+  })
+
+  it('does not search for a liquidation price from a zero price', async () => {
+    const position = { maker: constants.Zero, taker: utils.parseEther('1') }
+    const estimate = await estimateLiquidation({
+      snapshot: { collateral: utils.parseEther('1000'), maintenance: constants.Zero, pre: NO_PRE, position },
+      maintenance: utils.parseEther('0.1'),
+      price: constants.Zero,
+      globalPosition: position,
+      payoff: async price => price,
+    })
+    expect(estimate.liquidatable).to.be.false
+    expect(estimate.liquidationPrice).to.be.undefined
+  })
+})
@@ -0,0 +1,142 @@
+import { expect } from 'chai'
+import 'hardhat'
+import { utils } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+
+import { InstanceVars, deployProtocol, createProduct, depositTo } from '../helpers/setupHelpers'
+import { expectPositionEq, expectPrePositionEq } from '../../../../common/testutil/types'
+import { Product } from '../../../types/generated'
+import {
+  projectAccountSettlement,
+  projectProductSettlement,
+  readAccountSettlementState,
+  readProductSettlementState,
+  readSettlementParameters,
+} from '../../../util'
+
+describe('Settlement engine', () => {
+  let instanceVars: InstanceVars
+  let product: Product
+
+  const INITIAL_COLLATERAL = utils.parseEther('20000')
+  const MAKER_POSITION = utils.parseEther('0.001')
+  const TAKER_POSITION = utils.parseEther('0.001')
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    product = await createProduct(instanceVars)
+
+    await product.updateMakerFee(utils.parseEther('0.01'))
+    await product.updateTakerFee(utils.parseEther('0.02'))
+    await product.updatePositionFee(utils.parseEther('0.5'))
+  })
+
+  // Projects the next global settlement from chain state, then checks it against the product's own settlement
+  async function expectProjectedSettle(): Promise<void> {
+    const { controller, collateral, treasuryA, treasuryB } = instanceVars
+    const [state, parameters, currentVersion] = await Promise.all([
+      readProductSettlementState(product),
+      readSettlementParameters(product, controller),
+      product.currentVersion(),
+    ])
+    const projected = await projectProductSettlement(state, parameters, currentVersion, version =>
+      product.atVersion(version),
+    )
+    const feesBefore = (await collateral.fees(treasuryA.address)).add(await collateral.fees(treasuryB.address))
+
+    await product.settle()
+
+    expect(await product['latestVersion()']()).to.equal(projected.latestVersion.version)
+    expectPositionEq(await product.positionAtVersion(currentVersion.version), projected.position)
+    expectPrePositionEq(await product['pre()'](), projected.pre)
+    expectPositionEq(await product.valueAtVersion(currentVersion.version), projected.value)
+    expectPositionEq(await product.shareAtVersion(currentVersion.version), projected.share)
+    expect((await collateral.fees(treasuryA.address)).add(await collateral.fees(treasuryB.address))).to.equal(
+      feesBefore.add(projected.fee),
+    )
+  }
+
+  async function expectProjectedAccountSettle(account: SignerWithAddress): Promise<void> {
+    const { collateral } = instanceVars
+    const state = await readAccountSettlementState(product, account.address)
+    await product.settle()
+    const projected = await projectAccountSettlement(state, await product.currentVersion(), version =>
+      product.valueAtVersion(version),
+    )
+    const collateralBefore = await collateral['collateral(address,address)'](account.address, product.address)
+
+    await product.settleAccount(account.address)
+
+    expect(await product['latestVersion(address)'](account.address)).to.equal(projected.latestVersion)
+    expectPositionEq(await product['position(address)'](account.address), projected.position)
+    expectPrePositionEq(await product['pre(address)'](account.address), projected.pre)
+    expect(await collateral['collateral(address,address)'](account.address, product.address)).to.equal(
+      collateralBefore.add(projected.value),
+    )
+  }
+
+  it('matches settlement of a new market', async () => {
+    const { user, userB, userC, chainlink } = instanceVars
+    await depositTo(instanceVars, user, product, INITIAL_COLLATERAL)
+    await depositTo(instanceVars, userB, product, INITIAL_COLLATERAL)
+    await depositTo(instanceVars, userC, product, INITIAL_COLLATERAL)
+    await product.connect(user).openMake(MAKER_POSITION)
+    await product.connect(userB).openMake(MAKER_POSITION.mul(2))
+    await product.connect(userC).openTake(TAKER_POSITION)
+
+    await chainlink.next()
+    await expectProjectedSettle()
+    await chainlink.next()
+    await expectProjectedSettle()
+
+    await expectProjectedAccountSettle(user)
+    await expectProjectedAccountSettle(userB)
+    await expectProjectedAccountSettle(userC)
+  })
+
+  it('matches settlement over skipped versions with a pending position', async () => {
+    const { user, userC, chainlink } = instanceVars
+    await depositTo(instanceVars, user, product, INITIAL_COLLATERAL)
+    await depositTo(instanceVars, userC, product, INITIAL_COLLATERAL)
+    await product.connect(user).openMake(MAKER_POSITION)
+    await product.connect(userC).openTake(TAKER_POSITION.div(2))
+    await chainlink.next()
+    await product.settle()
+
+    await product.connect(userC).openTake(TAKER_POSITION.div(4))
+    await chainlink.next()
+    await chainlink.nextWithPriceModification(price => price.mul(11).div(10))
+    await chainlink.next()
+    await expectProjectedSettle()
+
+    await expectProjectedAccountSettle(user)
+    await expectProjectedAccountSettle(userC)
+  })
+
+  it('matches settlement of a socialized market', async () => {
+    const { user, userB, userC, userD, collateral, chainlink } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('5000'))
+    await depositTo(instanceVars, userB, product, INITIAL_COLLATERAL)
+    await depositTo(instanceVars, userC, product, INITIAL_COLLATERAL)
+    await product.connect(user).openMake(MAKER_POSITION)
+    await product.connect(userB).openMake(MAKER_POSITION.div(2))
+    await product.connect(userC).openTake(TAKER_POSITION)
+    await chainlink.next()
+    await expectProjectedSettle()
+
+    // Liquidating the larger maker leaves more taker than maker
+    await chainlink.nextWithPriceModification(price => price.mul(12).div(10))
+    await expectProjectedSettle()
+    await collateral.connect(userD).liquidate(user.address, product.address)
+    await chainlink.next()
+    await expectProjectedSettle()
+    const position = await product.positionAtVersion(await product['latestVersion()']())
+    expect(position.taker).to.be.gt(position.maker)
+
+    await chainlink.next()
+    await expectProjectedSettle()
+
+    await expectProjectedAccountSettle(userB)
+    await expectProjectedAccountSettle(userC)
+  })
+})
@@ -0,0 +1,118 @@
+import { expect } from 'chai'
+import 'hardhat'
+import { utils } from 'ethers'
+
+import { InstanceVars, deployProtocol, createProduct, depositTo } from '../helpers/setupHelpers'
+import { Product } from '../../../types/generated'
+import { previewTrade, simulateTrade } from '../../../util'
+
+describe('Trade preview', () => {
+  let instanceVars: InstanceVars
+  let product: Product
+
+  const POSITION = utils.parseEther('0.001')
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    product = await createProduct(instanceVars)
+
+    await product.updateMakerFee(utils.parseEther('0.01'))
+    await product.updateTakerFee(utils.parseEther('0.02'))
+    await product.updatePositionFee(utils.parseEther('0.5'))
+  })
+
+  it('quotes the fee, maintenance and funding of a taker', async () => {
+    const { user, userB, lens, collateral, chainlink } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('20000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('20000'))
+    await product.connect(user).openMake(POSITION)
+    await chainlink.next()
+    await product.settle()
+
+    const preview = await previewTrade(lens, product.address, userB.address, 'take', POSITION.div(2))
+    expect(preview.expectedError).to.be.undefined
+    expect(preview.insufficientCollateral).to.be.false
+    expect(preview.insufficientLiquidity).to.be.false
+    expect(preview.hourlyFundingRate).to.equal((await product.rate(preview.position)).mul(60 * 60))
+    expect(preview.hourlyFundingRateBefore).to.equal(0)
+    expect(await simulateTrade(product, userB.address, 'take', POSITION.div(2))).to.be.undefined
+
+    await product.connect(userB).openTake(POSITION.div(2))
+
+    expect(await collateral['collateral(address,address)'](userB.address, product.address)).to.equal(preview.collateral)
+    expect(preview.positionFee).to.equal(utils.parseEther('20000').sub(preview.collateral))
+    expect(preview.protocolPositionFee).to.equal(preview.positionFee.div(2))
+    expect(await lens.callStatic.maintenance(userB.address, product.address)).to.equal(preview.maintenance)
+  })
+
+  it('quotes the fee and maintenance of a maker', async () => {
+    const { user, lens, collateral, chainlink } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('20000'))
+    await product.connect(user).openMake(POSITION)
+    await chainlink.next()
+    await product.settle()
+
+    const preview = await previewTrade(lens, product.address, user.address, 'make', POSITION)
+    expect(preview.expectedError).to.be.undefined
+    expect(preview.accountPosition.maker).to.equal(POSITION.mul(2))
+
+    const collateralBefore = await collateral['collateral(address,address)'](user.address, product.address)
+    await product.connect(user).openMake(POSITION)
+
+    expect(await collateral['collateral(address,address)'](user.address, product.address)).to.equal(
+      collateralBefore.sub(preview.positionFee),
+    )
+    expect(await lens.callStatic.maintenance(user.address, product.address)).to.equal(preview.maintenance)
+  })
+
+  it('predicts insufficient liquidity', async () => {
+    const { user, userB, lens, chainlink } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('20000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('20000'))
+    await product.connect(user).openMake(POSITION)
+    await chainlink.next()
+    await product.settle()
+
+    const preview = await previewTrade(lens, product.address, userB.address, 'take', POSITION.mul(2))
+    expect(preview.insufficientLiquidity).to.be.true
+    expect(preview.expectedError).to.equal('ProductInsufficientLiquidityError')
+    expect(await simulateTrade(product, userB.address, 'take', POSITION.mul(2))).to.equal(preview.expectedError)
+    await expect(product.connect(userB).openTake(POSITION.mul(2))).to.be.revertedWithCustomError(
+      product,
+      'ProductInsufficientLiquidityError',
+    )
+  })
+
+  it('predicts insufficient collateral', async () => {
+    const { user, userB, lens, chainlink } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('20000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('1000'))
+    await product.connect(user).openMake(POSITION)
+    await chainlink.next()
+    await product.settle()
+
+    const preview = await previewTrade(lens, product.address, userB.address, 'take', POSITION)
+    expect(preview.insufficientCollateral).to.be.true
+    expect(preview.expectedError).to.equal('ProductInsufficientCollateralError')
+    expect(await simulateTrade(product, userB.address, 'take', POSITION)).to.equal(preview.expectedError)
+    await expect(product.connect(userB).openTake(POSITION)).to.be.revertedWithCustomError(
+      product,
+      'ProductInsufficientCollateralError',
+    )
+  })
+
+  it('predicts the maker limit', async () => {
+    const { user, lens } = instanceVars
+    await depositTo(instanceVars, user, product, utils.parseEther('20000'))
+    await product.updateMakerLimit(POSITION)
+
+    const preview = await previewTrade(lens, product.address, user.address, 'make', POSITION.mul(2))
+    expect(preview.makerLimitExceeded).to.be.true
+    expect(preview.expectedError).to.equal('ProductMakerOverLimitError')
+    expect(await simulateTrade(product, user.address, 'make', POSITION.mul(2))).to.equal(preview.expectedError)
+    await expect(product.connect(user).openMake(POSITION.mul(2))).to.be.revertedWithCustomError(
+      product,
+      'ProductMakerOverLimitError',
+    )
+  })
+})
@@ -0,0 +1,35 @@
+import 'hardhat'
+import { expect } from 'chai'
+import { existsSync, readdirSync, readFileSync } from 'fs'
+import { join } from 'path'
+
+import { Scenario } from '../helpers/scenarioHelpers'
+import { FUZZ_FAILURES_PATH, findViolation, randomScenario, saveFailure, shrinkScenario } from '../helpers/fuzzHelpers'
+
+// Override with FUZZ_SEED to reproduce a run, or raise FUZZ_RUNS for a longer campaign
+const FUZZ_SEED = Number(process.env.FUZZ_SEED ?? 1)
+const FUZZ_RUNS = Number(process.env.FUZZ_RUNS ?? 2)
+const FUZZ_STEPS = Number(process.env.FUZZ_STEPS ?? 20)
+
+const FAILURES: Scenario[] = (existsSync(FUZZ_FAILURES_PATH) ? readdirSync(FUZZ_FAILURES_PATH) : [])
+  .filter(file => file.endsWith('.json'))
+  .map(file => JSON.parse(readFileSync(join(FUZZ_FAILURES_PATH, file), 'utf-8')))
+
+describe('Invariants', () => {
+  FAILURES.forEach(scenario => {
+    it(`holds for recorded failure ${scenario.name}`, async () => {
+      expect(await findViolation(scenario)).to.be.undefined
+    })
+  })
+
+  Array.from({ length: FUZZ_RUNS }, (_, i) => FUZZ_SEED + i).forEach(seed => {
+    it(`holds for random sequence with seed ${seed}`, async () => {
+      const scenario = randomScenario(seed, FUZZ_STEPS)
+      const violation = await findViolation(scenario)
+      if (violation === undefined) return
+
+      const path = saveFailure(await shrinkScenario(scenario), `failure-${seed}`)
+      expect.fail(`${violation}, shrunk sequence saved to ${path}`)
+    }).timeout(0) // Shrinking replays the sequence against a fresh deployment many times over
+  })
+})
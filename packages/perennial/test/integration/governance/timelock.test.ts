@@ -0,0 +1,99 @@
+import { expect } from 'chai'
+import { constants, utils } from 'ethers'
+
+import { InstanceVars, deployProtocol } from '../helpers/setupHelpers'
+import { time } from '../../../../common/testutil'
+import {
+  Collateral__factory,
+  TimelockController,
+  TimelockController__factory,
+  UpgradeableBeacon__factory,
+} from '../../../types/generated'
+import {
+  buildOperation,
+  decodeCall,
+  decodeTimelockCalldata,
+  encodeExecute,
+  encodeSchedule,
+  fetchScheduledOperation,
+  TimelockContracts,
+  TimelockProposal,
+} from '../../../util'
+
+const DELAY = 60
+
+describe('Timelock proposals', () => {
+  let instanceVars: InstanceVars
+  let timelock: TimelockController
+  let contracts: TimelockContracts
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    const { owner, controller, proxyAdmin, productBeacon } = instanceVars
+
+    timelock = await new TimelockController__factory(owner).deploy(DELAY, [owner.address], [constants.AddressZero])
+    await controller.updateCoordinatorPendingOwner(0, timelock.address)
+    await proxyAdmin.transferOwnership(timelock.address)
+
+    contracts = {
+      timelock,
+      controller,
+      proxyAdmin,
+      productBeacon: UpgradeableBeacon__factory.connect(productBeacon.address, owner),
+      resolveAddress: async address => address,
+    }
+  })
+
+  it('schedules, decodes and executes a batch of actions', async () => {
+    const { owner, controller, proxyAdmin, collateral, dsu } = instanceVars
+    const collateralImpl = await new Collateral__factory(owner).deploy(dsu.address)
+
+    const proposal: TimelockProposal = {
+      description: 'Accept root ownership, raise the protocol fee and upgrade Collateral',
+      actions: [
+        { action: 'acceptCoordinatorOwner', coordinatorId: 0 },
+        { action: 'updateProtocolFee', value: '0.2' },
+        { action: 'upgrade', proxy: collateral.address, implementation: collateralImpl.address },
+      ],
+    }
+    const operation = await buildOperation(proposal, contracts)
+    expect(operation.predecessor).to.equal(constants.HashZero)
+    expect(operation.calls.map(call => decodeCall(call, contracts))).to.deep.equal(proposal.actions)
+
+    await owner.sendTransaction({ to: timelock.address, data: encodeSchedule(timelock, operation, DELAY) })
+    expect(await timelock.isOperationPending(operation.id)).to.be.true
+    expect(await fetchScheduledOperation(timelock, operation.id)).to.deep.equal(operation)
+
+    const executeCalldata = encodeExecute(timelock, operation)
+    expect(decodeTimelockCalldata(timelock, executeCalldata)).to.deep.equal(operation)
+
+    await time.increase(DELAY)
+    await owner.sendTransaction({ to: timelock.address, data: executeCalldata })
+
+    expect(await timelock.isOperationDone(operation.id)).to.be.true
+    expect(await controller['owner(uint256)'](0)).to.equal(timelock.address)
+    expect(await controller.protocolFee()).to.equal(utils.parseEther('0.2'))
+    expect(await proxyAdmin.getProxyImplementation(collateral.address)).to.equal(collateralImpl.address)
+  })
+
+  it('chains proposals through their predecessor', async () => {
+    const { owner, controller } = instanceVars
+
+    const first = await buildOperation({ actions: [{ action: 'acceptCoordinatorOwner', coordinatorId: 0 }] }, contracts)
+    const second = await buildOperation(
+      { predecessor: first.id, actions: [{ action: 'updateMinCollateral', value: '100' }] },
+      contracts,
+    )
+    expect(second.predecessor).to.equal(first.id)
+
+    await owner.sendTransaction({ to: timelock.address, data: encodeSchedule(timelock, first, DELAY) })
+    await owner.sendTransaction({ to: timelock.address, data: encodeSchedule(timelock, second, DELAY) })
+    await time.increase(DELAY)
+
+    await expect(owner.sendTransaction({ to: timelock.address, data: encodeExecute(timelock, second) })).to.be.reverted
+    await owner.sendTransaction({ to: timelock.address, data: encodeExecute(timelock, first) })
+    await owner.sendTransaction({ to: timelock.address, data: encodeExecute(timelock, second) })
+
+    expect(await controller.minCollateral()).to.equal(utils.parseEther('100'))
+  })
+})
@@ -8,6 +8,7 @@ import {
   PassthroughChainlinkFeed,
   PassthroughChainlinkFeed__factory,
 } from '../../../types/generated'
+import { deployFixtureFeedRegistry, isForked } from './feedFixtureHelpers'
 
 const { ethers, deployments } = HRE
 
@@ -29,9 +30,7 @@ export class ChainlinkContext {
     const [owner] = await ethers.getSigners()
 
     this.feedRegistryExternal = await FeedRegistryInterface__factory.connect(
-      (
-        await deployments.get('ChainlinkFeedRegistry')
-      ).address,
+      isForked() ? (await deployments.get('ChainlinkFeedRegistry')).address : await deployFixtureFeedRegistry(),
       owner,
     )
     const feedRegistryFactory = await smock.mock<PassthroughChainlinkFeed__factory>('PassthroughChainlinkFeed')
@@ -55,18 +54,26 @@ export class ChainlinkContext {
   }
 
   public async nextWithPriceModification(priceFn: (price: BigNumber) => BigNumber): Promise<void> {
-    this.latestRoundId = await this.feedRegistryExternal.getNextRoundId(this.base, this.quote, this.latestRoundId)
-    const latestData = await this.feedRegistryExternal.getRoundData(this.base, this.quote, this.latestRoundId)
-    const modifiedData = [latestData[0], priceFn(latestData[1]), latestData[2], latestData[3], latestData[4]]
-    this.feedRegistry.latestRoundData.reset()
-    this.feedRegistry.latestRoundData.whenCalledWith(this.base, this.quote).returns(modifiedData)
-    this.feedRegistry.getRoundData.whenCalledWith(this.base, this.quote, this.latestRoundId).returns(modifiedData)
+    await this.nextWithModification(priceFn, timestamp => timestamp)
   }
 
   public async nextWithTimestampModification(timestampFn: (timestamp: BigNumber) => BigNumber): Promise<void> {
+    await this.nextWithModification(price => price, timestampFn)
+  }
+
+  public async nextWithModification(
+    priceFn: (price: BigNumber) => BigNumber,
+    timestampFn: (timestamp: BigNumber) => BigNumber,
+  ): Promise<void> {
     this.latestRoundId = await this.feedRegistryExternal.getNextRoundId(this.base, this.quote, this.latestRoundId)
     const latestData = await this.feedRegistryExternal.getRoundData(this.base, this.quote, this.latestRoundId)
-    const modifiedData = [latestData[0], latestData[1], latestData[2], timestampFn(latestData[3]), latestData[4]]
+    const modifiedData = [
+      latestData[0],
+      priceFn(latestData[1]),
+      latestData[2],
+      timestampFn(latestData[3]),
+      latestData[4],
+    ]
     this.feedRegistry.latestRoundData.reset()
     this.feedRegistry.latestRoundData.whenCalledWith(this.base, this.quote).returns(modifiedData)
     this.feedRegistry.getRoundData.whenCalledWith(this.base, this.quote, this.latestRoundId).returns(modifiedData)
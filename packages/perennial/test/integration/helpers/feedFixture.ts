@@ -0,0 +1,158 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { CHAINLINK_CUSTOM_CURRENCIES, buildChainlinkRoundId } from '@equilibria/perennial-oracle/util'
+import { AggregatorV3Interface, FeedRegistryInterface } from '../../../types/generated'
+
+// Starting rounds of the feeds used by test/integration, see INITIAL_AGGREGATOR_ROUND_ID and VERSION_OFFSET there
+export const ETH_USD_FROM_ROUND = buildChainlinkRoundId(1, 10000)
+export const DPI_FEED_FROM_ROUND = '92233720368547761313'
+export const DEFAULT_ROUNDS = 100
+
+// Registry phase 1 of ETH/USD starts at aggregator round 7528
+const ETH_USD_PHASE_START = buildChainlinkRoundId(1, 7528)
+// Timestamp of the fork block, so built rounds are dated like recorded ones
+const BUILT_FROM_TIMESTAMP = 1673784000
+const BUILT_HEARTBEAT = 3600
+
+export interface FeedRound {
+  roundId: string
+  answer: string
+  startedAt: string
+  updatedAt: string
+  answeredInRound: string
+}
+
+export interface RegistryFeedFixture {
+  base: string
+  quote: string
+  decimals: number
+  phases: { phaseId: number; startingRoundId: string; endingRoundId: string }[]
+  rounds: FeedRound[]
+}
+
+export interface AggregatorFeedFixture {
+  // Deployment name of the feed
+  name: string
+  decimals: number
+  rounds: FeedRound[]
+}
+
+/**
+ * Round data recorded from a fork, or built by `buildFeedFixture`, used to seed local feeds when the integration
+ * tests run without one
+ */
+export interface FeedFixture {
+  network: string
+  blockNumber: number
+  registry: RegistryFeedFixture[]
+  feeds: AggregatorFeedFixture[]
+}
+
+type RoundData = [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber]
+
+function toFeedRound([roundId, answer, startedAt, updatedAt, answeredInRound]: RoundData): FeedRound {
+  return {
+    roundId: roundId.toString(),
+    answer: answer.toString(),
+    startedAt: startedAt.toString(),
+    updatedAt: updatedAt.toString(),
+    answeredInRound: answeredInRound.toString(),
+  }
+}
+
+/**
+ * Records `count` consecutive rounds of the `base`/`quote` registry feed starting at `fromRoundId`, along with the
+ * ranges of every phase they span
+ */
+export async function recordRegistryFeed(
+  registry: FeedRegistryInterface,
+  base: string,
+  quote: string,
+  fromRoundId: BigNumberish,
+  count: number,
+): Promise<RegistryFeedFixture> {
+  const rounds: FeedRound[] = []
+  let roundId = BigNumber.from(fromRoundId)
+  while (rounds.length < count && !roundId.isZero()) {
+    rounds.push(toFeedRound(await registry.getRoundData(base, quote, roundId)))
+    roundId = await registry.getNextRoundId(base, quote, roundId)
+  }
+
+  // Round ids encode their phase in the bits above the aggregator round id
+  const phaseIds = Array.from(new Set(rounds.map(round => BigNumber.from(round.roundId).shr(64).toNumber())))
+  const phases = []
+  for (const phaseId of phaseIds) {
+    const [startingRoundId, endingRoundId] = await registry.getPhaseRange(base, quote, phaseId)
+    phases.push({ phaseId, startingRoundId: startingRoundId.toString(), endingRoundId: endingRoundId.toString() })
+  }
+
+  return { base, quote, decimals: await registry.decimals(base, quote), phases, rounds }
+}
+
+/**
+ * Records `count` consecutive rounds of an aggregator feed starting at `fromRoundId`
+ */
+export async function recordAggregatorFeed(
+  feed: AggregatorV3Interface,
+  name: string,
+  fromRoundId: BigNumberish,
+  count: number,
+): Promise<AggregatorFeedFixture> {
+  const rounds: FeedRound[] = []
+  for (let i = 0; i < count; i++) {
+    rounds.push(toFeedRound(await feed.getRoundData(BigNumber.from(fromRoundId).add(i))))
+  }
+  return { name, decimals: await feed.decimals(), rounds }
+}
+
+function buildRounds(fromRoundId: BigNumberish, count: number, price: BigNumber, step: BigNumber): FeedRound[] {
+  const rounds: FeedRound[] = []
+  for (let i = 0; i < count; i++) {
+    const roundId = BigNumber.from(fromRoundId).add(i).toString()
+    const timestamp = (BUILT_FROM_TIMESTAMP + i * BUILT_HEARTBEAT).toString()
+    rounds.push({
+      roundId,
+      // Oscillates within 5 steps of `price`, repeating every 11 rounds
+      answer: price.add(step.mul(((i * 7) % 11) - 5)).toString(),
+      startedAt: timestamp,
+      updatedAt: timestamp,
+      answeredInRound: roundId,
+    })
+  }
+  return rounds
+}
+
+/**
+ * Builds `count` deterministic rounds of every feed the integration tests read, starting at the same rounds
+ * `yarn record:fixtures` records from
+ * @dev Prices are 8 decimal, ETH/USD moves around $1350 and the DPI feed around $100
+ */
+export function buildFeedFixture(count = DEFAULT_ROUNDS): FeedFixture {
+  const ethUsdRounds = buildRounds(ETH_USD_FROM_ROUND, count, BigNumber.from(1350e8), BigNumber.from(5e8))
+
+  return {
+    network: 'hardhat',
+    blockNumber: 0,
+    registry: [
+      {
+        base: CHAINLINK_CUSTOM_CURRENCIES.ETH,
+        quote: CHAINLINK_CUSTOM_CURRENCIES.USD,
+        decimals: 8,
+        phases: [
+          {
+            phaseId: 1,
+            startingRoundId: ETH_USD_PHASE_START.toString(),
+            endingRoundId: ethUsdRounds[ethUsdRounds.length - 1].roundId,
+          },
+        ],
+        rounds: ethUsdRounds,
+      },
+    ],
+    feeds: [
+      {
+        name: 'ChainlinkDPIFeed',
+        decimals: 8,
+        rounds: buildRounds(DPI_FEED_FROM_ROUND, count, BigNumber.from(100e8), BigNumber.from(1e8)),
+      },
+    ],
+  }
+}
@@ -0,0 +1,75 @@
+import HRE from 'hardhat'
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { BigNumber } from 'ethers'
+import { smock } from '@defi-wonderland/smock'
+
+import { AggregatorV3Interface, FeedRegistryInterface } from '../../../types/generated'
+import { FeedFixture, FeedRound, buildFeedFixture } from './feedFixture'
+
+const { config } = HRE
+
+export const FEED_FIXTURE_PATH = join(config.paths.tests, 'integration', 'fixtures', 'feeds.json')
+
+export function isForked(): boolean {
+  return !!config.networks.hardhat.forking?.enabled
+}
+
+/**
+ * Fixture recorded to FEED_FIXTURE_PATH with `yarn record:fixtures`, or deterministic rounds if none was recorded
+ */
+export function loadFeedFixture(): FeedFixture {
+  if (!existsSync(FEED_FIXTURE_PATH)) return buildFeedFixture()
+  return JSON.parse(readFileSync(FEED_FIXTURE_PATH, 'utf-8'))
+}
+
+function roundData(round: FeedRound) {
+  return [round.roundId, round.answer, round.startedAt, round.updatedAt, round.answeredInRound]
+}
+
+/**
+ * Deploys a fake feed registry seeded with every registry feed in the fixture
+ */
+export async function deployFixtureFeedRegistry(): Promise<string> {
+  const registry = await smock.fake<FeedRegistryInterface>('FeedRegistryInterface')
+
+  for (const { base, quote, decimals, phases, rounds } of loadFeedFixture().registry) {
+    registry.decimals.whenCalledWith(base, quote).returns(decimals)
+    phases.forEach(({ phaseId, startingRoundId, endingRoundId }) =>
+      registry.getPhaseRange.whenCalledWith(base, quote, phaseId).returns([startingRoundId, endingRoundId]),
+    )
+    rounds.forEach((round, i) => {
+      registry.getRoundData.whenCalledWith(base, quote, BigNumber.from(round.roundId)).returns(roundData(round))
+      registry.getNextRoundId
+        .whenCalledWith(base, quote, BigNumber.from(round.roundId))
+        .returns(rounds[i + 1]?.roundId ?? 0)
+    })
+    registry.latestRoundData.whenCalledWith(base, quote).returns(roundData(rounds[rounds.length - 1]))
+  }
+
+  return registry.address
+}
+
+/**
+ * Deploys a fake aggregator seeded with the fixture feed recorded from deployment `name`
+ */
+export async function deployFixtureDataFeed(name: string): Promise<string> {
+  const fixture = loadFeedFixture().feeds.find(feed => feed.name === name)
+  if (fixture === undefined) throw new Error(`No fixture recorded for ${name}`)
+  const feed = await smock.fake<AggregatorV3Interface>('AggregatorV3Interface')
+
+  feed.decimals.returns(fixture.decimals)
+  fixture.rounds.forEach(round =>
+    feed.getRoundData.whenCalledWith(BigNumber.from(round.roundId)).returns(roundData(round)),
+  )
+  feed.latestRoundData.returns(roundData(fixture.rounds[fixture.rounds.length - 1]))
+
+  return feed.address
+}
+
+/**
+ * Address of data feed deployment `name`, or of a fixture-seeded fake when not forked
+ */
+export async function dataFeedAddress(name: string): Promise<string> {
+  return isForked() ? (await HRE.deployments.get(name)).address : deployFixtureDataFeed(name)
+}
@@ -0,0 +1,211 @@
+import { mkdirSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { BigNumber, utils } from 'ethers'
+
+import { deployProtocol } from './setupHelpers'
+import { Scenario, ScenarioAction, ScenarioState, ScenarioStep, ScenarioUser, runScenario } from './scenarioHelpers'
+
+// Failing sequences are saved as scenarios next to the price-path scenarios, so they can be committed as regressions
+export const FUZZ_FAILURES_PATH = join(__dirname, '..', 'scenarios', 'fuzz')
+
+const USERS: ScenarioUser[] = ['user', 'userB', 'userC', 'userD']
+const FUNDING_DEPOSIT = '2000'
+const MAX_PRICE_DELTA = 150
+const MAX_ACTIONS_PER_STEP = 3
+const MAX_SHRINK_RUNS = 40
+
+// Rounding allowance when comparing the product's collateral against the sum of its accounts
+const COLLATERAL_DUST = utils.parseUnits('1', 'gwei')
+
+/**
+ * Generates a random scenario of `length` steps that is always the same for a given `seed`
+ * @dev Actions are drawn without regard for whether they can succeed, so the scenario tolerates reverts
+ */
+export function randomScenario(seed: number, length: number): Scenario {
+  const next = mulberry32(seed)
+  const pick = <T>(items: T[]): T => items[Math.floor(next() * items.length)]
+  const amount = (min: number, max: number, decimals: number) => (min + next() * (max - min)).toFixed(decimals)
+
+  const randomAction = (): ScenarioAction => {
+    const user = pick(USERS)
+    switch (pick(['deposit', 'withdraw', 'openMake', 'closeMake', 'openTake', 'closeTake', 'liquidate', 'settle'])) {
+      case 'deposit':
+        return { action: 'deposit', user, amount: amount(100, 3000, 2) }
+      case 'withdraw':
+        return { action: 'withdraw', user, amount: amount(10, 1000, 2) }
+      case 'openMake':
+        return { action: 'openMake', user, amount: amount(0.00001, 0.0003, 6) }
+      case 'closeMake':
+        return { action: 'closeMake', user, amount: amount(0.00001, 0.0003, 6) }
+      case 'openTake':
+        return { action: 'openTake', user, amount: amount(0.00001, 0.0003, 6) }
+      case 'closeTake':
+        return { action: 'closeTake', user, amount: amount(0.00001, 0.0003, 6) }
+      case 'liquidate':
+        return { action: 'liquidate', user, liquidator: pick(USERS.filter(liquidator => liquidator !== user)) }
+      default:
+        return { action: 'settle' }
+    }
+  }
+
+  const steps: ScenarioStep[] = [
+    {
+      description: 'funding',
+      actions: USERS.map((user): ScenarioAction => ({ action: 'deposit', user, amount: FUNDING_DEPOSIT })),
+    },
+  ]
+  for (let i = 0; i < length; i++) {
+    const step: ScenarioStep = {}
+    if (next() < 0.5) step.round = { priceDelta: amount(-MAX_PRICE_DELTA, MAX_PRICE_DELTA, 2) }
+    step.actions = Array.from({ length: 1 + Math.floor(next() * MAX_ACTIONS_PER_STEP) }, randomAction)
+    steps.push(step)
+  }
+
+  return { name: `fuzz seed ${seed}`, tolerateReverts: true, steps }
+}
+
+/**
+ * Runs `scenario` against a fresh deployment, checking the protocol invariants after every step
+ * @return the first invariant violation, if any
+ */
+export async function findViolation(scenario: Scenario): Promise<string | undefined> {
+  const instanceVars = await deployProtocol()
+  let previous: ScenarioState | undefined
+  let violation: string | undefined
+
+  try {
+    await runScenario(instanceVars, scenario, (state, executed, stepName) => {
+      const violations = checkInvariants(state, previous, executed)
+      previous = state
+      if (violations.length === 0) return
+      violation = `${stepName}: ${violations.join('; ')}`
+      throw new Error(violation)
+    })
+  } catch (e) {
+    if (violation === undefined) throw e
+  }
+  return violation
+}
+
+/**
+ * Lists the protocol invariants `state` breaks, given the state after the previous step and the actions that went
+ * through in this one
+ * @dev Lens snapshots settle the product and each account, so pending positions should never be stale
+ */
+export function checkInvariants(
+  state: ScenarioState,
+  previous: ScenarioState | undefined,
+  executed: ScenarioAction[],
+): string[] {
+  const violations: string[] = []
+  const value = (path: string) => BigNumber.from(state[path])
+
+  // Accounts settled into a negative balance are clamped to zero and the difference counted as shortfall, so once
+  // every account is settled their collateral adds up to the product's collateral and shortfall
+  const productCollateral = value('product.collateral').add(value('product.settledShortfall'))
+  const userCollateral = USERS.reduce((sum, user) => sum.add(value(`${user}.collateral`)), BigNumber.from(0))
+  if (userCollateral.sub(productCollateral).abs().gt(COLLATERAL_DUST))
+    violations.push(
+      `account collateral ${userCollateral} differs from product collateral and shortfall ${productCollateral}`,
+    )
+
+  // Only liquidations may leave the next position with more taker than maker, which is then socialized
+  if (
+    executed.some(({ action }) => action === 'openTake' || action === 'closeMake') &&
+    !executed.some(({ action }) => action === 'liquidate')
+  ) {
+    const nextMaker = value('product.position.maker')
+      .add(value('product.pre.openPosition.maker'))
+      .sub(value('product.pre.closePosition.maker'))
+    const nextTaker = value('product.position.taker')
+      .add(value('product.pre.openPosition.taker'))
+      .sub(value('product.pre.closePosition.taker'))
+    if (nextTaker.gt(nextMaker)) violations.push(`next taker ${nextTaker} exceeds next maker ${nextMaker}`)
+  }
+
+  const latestVersion = state['product.latestVersion.version']
+  for (const prefix of ['product', ...USERS]) {
+    if (isPendingEmpty(state, prefix) || state[`${prefix}.pre.oracleVersion`] === latestVersion) continue
+    violations.push(`${prefix} pre position from version ${state[`${prefix}.pre.oracleVersion`]} is still pending`)
+  }
+
+  if (previous) {
+    for (const path of ['product.productFee', 'product.protocolFee']) {
+      if (value(path).lt(previous[path])) violations.push(`${path} decreased from ${previous[path]} to ${state[path]}`)
+    }
+  }
+
+  return violations
+}
+
+/**
+ * Greedily removes steps, rounds and actions from the failing `scenario` as long as it keeps violating an invariant
+ * @dev Each attempt redeploys the protocol, so shrinking stops after `maxRuns` attempts
+ */
+export async function shrinkScenario(scenario: Scenario, maxRuns = MAX_SHRINK_RUNS): Promise<Scenario> {
+  let shrunk = scenario
+  let runs = 0
+
+  for (let progress = true; progress && runs < maxRuns; ) {
+    progress = false
+    for (const candidate of shrinkCandidates(shrunk)) {
+      if (runs++ >= maxRuns) break
+      if ((await findViolation(candidate)) === undefined) continue
+      shrunk = candidate
+      progress = true
+      break
+    }
+  }
+  return shrunk
+}
+
+/**
+ * Saves a failing scenario to FUZZ_FAILURES_PATH so it is replayed, invariants included, by every later run
+ * @return the path of the saved scenario
+ */
+export function saveFailure(scenario: Scenario, name: string): string {
+  const path = join(FUZZ_FAILURES_PATH, `${name}.json`)
+  mkdirSync(FUZZ_FAILURES_PATH, { recursive: true })
+  writeFileSync(path, JSON.stringify(scenario, null, 2))
+  return path
+}
+
+// Largest reductions first: every scenario with one step, then one round, then one action dropped
+function shrinkCandidates(scenario: Scenario): Scenario[] {
+  const { steps } = scenario
+  const withSteps = (candidate: ScenarioStep[]): Scenario => ({ ...scenario, steps: candidate })
+  const candidates: Scenario[] = []
+
+  for (let i = 0; i < steps.length; i++) candidates.push(withSteps(steps.filter((_, j) => j !== i)))
+  for (let i = 0; i < steps.length; i++) {
+    if (steps[i].round)
+      candidates.push(withSteps(steps.map((step, j) => (j === i ? { ...step, round: undefined } : step))))
+  }
+  for (let i = 0; i < steps.length; i++) {
+    for (let a = 0; a < (steps[i].actions ?? []).length; a++) {
+      candidates.push(
+        withSteps(
+          steps.map((step, j) => (j === i ? { ...step, actions: step.actions?.filter((_, b) => b !== a) } : step)),
+        ),
+      )
+    }
+  }
+  return candidates
+}
+
+function isPendingEmpty(state: ScenarioState, prefix: string): boolean {
+  return ['openPosition', 'closePosition'].every(side =>
+    ['maker', 'taker'].every(field => BigNumber.from(state[`${prefix}.pre.${side}.${field}`]).isZero()),
+  )
+}
+
+// Seeded PRNG (mulberry32) returning floats in [0, 1)
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = Math.imul(state ^ (state >>> 15), state | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
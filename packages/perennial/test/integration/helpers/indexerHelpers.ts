@@ -0,0 +1,32 @@
+import {
+  ICollateral__factory,
+  IController__factory,
+  IIncentivizer__factory,
+  IProduct__factory,
+} from '../../../types/generated'
+import { EventIndexer, EventStore } from '../../../util'
+import { InstanceVars } from './setupHelpers'
+
+export function createEventIndexer(
+  instanceVars: InstanceVars,
+  store: EventStore,
+  options: { chunkSize?: number; confirmations?: number } = {},
+): EventIndexer {
+  const { owner, controller, collateral, incentivizer } = instanceVars
+  return new EventIndexer(
+    store,
+    {
+      controller: IController__factory.connect(controller.address, owner),
+      collateral: ICollateral__factory.connect(collateral.address, owner),
+      incentivizer: IIncentivizer__factory.connect(incentivizer.address, owner),
+      productAt: async address => IProduct__factory.connect(address, owner),
+    },
+    { confirmations: 0, ...options },
+  )
+}
+
+export async function syncEventStore(instanceVars: InstanceVars, startBlock: number): Promise<EventStore> {
+  const store = await EventStore.load(undefined, startBlock)
+  await createEventIndexer(instanceVars, store).sync()
+  return store
+}
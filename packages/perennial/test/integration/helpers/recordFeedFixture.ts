@@ -0,0 +1,61 @@
+import HRE from 'hardhat'
+import { mkdir, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+import { CHAINLINK_CUSTOM_CURRENCIES } from '@equilibria/perennial-oracle/util'
+import { FORK_NETWORK } from '../../../../common/hardhat.default.config'
+import {
+  DEFAULT_ROUNDS,
+  DPI_FEED_FROM_ROUND,
+  ETH_USD_FROM_ROUND,
+  FeedFixture,
+  recordAggregatorFeed,
+  recordRegistryFeed,
+} from './feedFixture'
+import { FEED_FIXTURE_PATH, isForked } from './feedFixtureHelpers'
+
+const {
+  ethers,
+  deployments: { get },
+} = HRE
+
+/**
+ * Records the oracle rounds used by the integration tests from a fork to FEED_FIXTURE_PATH, to run them offline
+ * against real prices instead of the built ones
+ * @dev Run with `yarn record:fixtures`. FEED_FIXTURE_ROUNDS overrides the number of rounds recorded per feed.
+ */
+async function recordFeedFixture(): Promise<void> {
+  if (!isForked()) throw 'Fixtures must be recorded on a hardhat fork'
+
+  const count = process.env.FEED_FIXTURE_ROUNDS ? Number(process.env.FEED_FIXTURE_ROUNDS) : DEFAULT_ROUNDS
+  const registry = await ethers.getContractAt('FeedRegistryInterface', (await get('ChainlinkFeedRegistry')).address)
+  const dpiFeed = await ethers.getContractAt('AggregatorV3Interface', (await get('ChainlinkDPIFeed')).address)
+
+  const fixture: FeedFixture = {
+    network: FORK_NETWORK,
+    blockNumber: await ethers.provider.getBlockNumber(),
+    registry: [
+      await recordRegistryFeed(
+        registry,
+        CHAINLINK_CUSTOM_CURRENCIES.ETH,
+        CHAINLINK_CUSTOM_CURRENCIES.USD,
+        ETH_USD_FROM_ROUND,
+        count,
+      ),
+    ],
+    feeds: [await recordAggregatorFeed(dpiFeed, 'ChainlinkDPIFeed', DPI_FEED_FROM_ROUND, count)],
+  }
+
+  await mkdir(dirname(FEED_FIXTURE_PATH), { recursive: true })
+  await writeFile(FEED_FIXTURE_PATH, JSON.stringify(fixture, null, 2))
+  console.log(`recorded ${count} rounds per feed at block ${fixture.blockNumber} to ${FEED_FIXTURE_PATH}`)
+}
+
+// Mocha loads every file under test/integration, so only record when run as a script
+if (require.main === module) {
+  recordFeedFixture()
+    .then(() => console.log('done.'))
+    .catch(e => {
+      console.error(e)
+      process.exitCode = 1
+    })
+}
@@ -0,0 +1,277 @@
+import HRE from 'hardhat'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { BigNumber, ContractTransaction, utils } from 'ethers'
+
+import { Product, TestnetVault, TestnetVault__factory } from '../../../types/generated'
+import { decodeError, takeLensSnapshots } from '../../../util'
+import { InstanceVars, createIncentiveProgram, createProduct } from './setupHelpers'
+
+const CHAINLINK_DECIMALS = 8
+
+export type ScenarioUser = 'user' | 'userB' | 'userC' | 'userD'
+
+/**
+ * User action run within a scenario step
+ * @dev Amounts are decimal strings. `reverts` names the custom error the action is expected to revert with.
+ */
+export type ScenarioAction = { reverts?: string } & (
+  | { action: 'deposit' | 'withdraw'; user: ScenarioUser; amount: string }
+  | { action: 'openMake' | 'closeMake' | 'openTake' | 'closeTake'; user: ScenarioUser; amount: string }
+  | { action: 'settle' }
+  | { action: 'settleAccount'; user: ScenarioUser }
+  | { action: 'liquidate'; user: ScenarioUser; liquidator: ScenarioUser }
+  | { action: 'createProgram' }
+  | { action: 'claim'; user: ScenarioUser }
+  | { action: 'vaultDeposit' | 'vaultRedeem'; user: ScenarioUser; amount: string }
+  | { action: 'vaultClaim'; user: ScenarioUser }
+)
+
+export interface ScenarioStep {
+  description?: string
+  // Advances the oracle to its next round, optionally overriding the round's price (in USD) or shifting its timestamp
+  round?: { price?: string; priceDelta?: string; timeDelta?: number }
+  actions?: ScenarioAction[]
+  // Expected state after the step, keyed by the paths of `scenarioState`
+  expect?: { [path: string]: string }
+}
+
+export interface Scenario {
+  name: string
+  // Parameter overrides applied to the product after creation, as decimal strings
+  product?: Partial<Record<'maintenance' | 'fundingFee' | 'makerFee' | 'takerFee' | 'positionFee', string>>
+  // Skips actions that revert with a protocol error instead of failing, used by generated scenarios whose actions
+  // may be invalid
+  tolerateReverts?: boolean
+  steps: ScenarioStep[]
+}
+
+export type ScenarioState = { [path: string]: string }
+
+/**
+ * Called with the state after every step along with the actions of the step that went through
+ */
+export type ScenarioStepHook = (
+  state: ScenarioState,
+  executed: ScenarioAction[],
+  stepName: string,
+) => void | Promise<void>
+
+interface ScenarioContext {
+  instanceVars: InstanceVars
+  product: Product
+  vault?: TestnetVault
+  programIds: BigNumber[]
+}
+
+/**
+ * Runs `scenario` against a freshly created product, checking each step's expectations as it goes
+ */
+export async function runScenario(
+  instanceVars: InstanceVars,
+  scenario: Scenario,
+  afterStep?: ScenarioStepHook,
+): Promise<void> {
+  const product = await createProduct(instanceVars)
+  if (scenario.product?.maintenance) await product.updateMaintenance(utils.parseEther(scenario.product.maintenance))
+  if (scenario.product?.fundingFee) await product.updateFundingFee(utils.parseEther(scenario.product.fundingFee))
+  if (scenario.product?.makerFee) await product.updateMakerFee(utils.parseEther(scenario.product.makerFee))
+  if (scenario.product?.takerFee) await product.updateTakerFee(utils.parseEther(scenario.product.takerFee))
+  if (scenario.product?.positionFee) await product.updatePositionFee(utils.parseEther(scenario.product.positionFee))
+
+  const context: ScenarioContext = { instanceVars, product, programIds: [] }
+  for (let i = 0; i < scenario.steps.length; i++) {
+    const step = scenario.steps[i]
+    const stepName = `${scenario.name} step ${i}${step.description ? ` (${step.description})` : ''}`
+
+    if (step.round) await advanceRound(instanceVars, step.round)
+    const executed: ScenarioAction[] = []
+    for (const action of step.actions ?? []) {
+      if (await runAction(context, action, stepName, scenario.tolerateReverts)) executed.push(action)
+    }
+    if (step.expect === undefined && afterStep === undefined) continue
+
+    const state = await scenarioState(context)
+    for (const [path, expected] of Object.entries(step.expect ?? {})) {
+      expect(state[path], `${stepName}: ${path}`).to.equal(parseExpected(expected))
+    }
+    if (afterStep) await afterStep(state, executed, stepName)
+  }
+}
+
+/**
+ * Flattened state checked by scenario expectations
+ * @dev Paths are `protocol.<lens path>`, `product.<lens path>`, `product.settledShortfall`, `<user>.<lens path>`,
+ *      `dsu.<user>`, `incentives.<user>.<program index>` and `vault.<user>.shares|claimable`
+ */
+async function scenarioState(context: ScenarioContext): Promise<ScenarioState> {
+  const { instanceVars, product, vault, programIds } = context
+  const { lens, dsu, incentivizer } = instanceVars
+  const users = scenarioUsers(instanceVars)
+  const accounts = Object.values(users).map(user => user.address)
+
+  const snapshots = await takeLensSnapshots(lens, [product.address], { [product.address]: accounts })
+  const state: ScenarioState = {}
+  const add = (prefix: string, flat: { [path: string]: string }) =>
+    Object.entries(flat).forEach(([path, value]) => (state[`${prefix}.${path}`] = value))
+
+  add('protocol', snapshots.protocol)
+  add('product', snapshots.products[product.address])
+  state['product.settledShortfall'] = (await settledShortfall(context, accounts)).toString()
+  for (const [name, user] of Object.entries(users)) {
+    add(name, snapshots.users[product.address][user.address])
+    state[`dsu.${name}`] = (await dsu.balanceOf(user.address)).toString()
+    for (let index = 0; index < programIds.length; index++) {
+      state[`incentives.${name}.${index}`] = (
+        await incentivizer.unclaimed(product.address, user.address, programIds[index])
+      ).toString()
+    }
+    if (vault) {
+      state[`vault.${name}.shares`] = (await vault.balanceOf(user.address)).toString()
+      state[`vault.${name}.claimable`] = (await vault.claimable(user.address)).toString()
+    }
+  }
+  return state
+}
+
+/**
+ * Shortfall of the product once all of `accounts` are settled
+ * @dev Lens snapshots settle one account per call, so an account settled into a negative balance reads as zero
+ *      collateral while its shortfall is never counted. The accounts are settled for real and the chain reverted.
+ */
+async function settledShortfall(context: ScenarioContext, accounts: string[]): Promise<BigNumber> {
+  const { instanceVars, product } = context
+  const snapshot = await HRE.network.provider.send('evm_snapshot', [])
+  try {
+    for (const account of accounts) await product.settleAccount(account)
+    return await instanceVars.collateral.shortfall(product.address)
+  } finally {
+    await HRE.network.provider.send('evm_revert', [snapshot])
+  }
+}
+
+async function advanceRound(instanceVars: InstanceVars, round: NonNullable<ScenarioStep['round']>): Promise<void> {
+  const { price, priceDelta, timeDelta } = round
+  await instanceVars.chainlink.nextWithModification(
+    current => {
+      if (price !== undefined) return utils.parseUnits(price, CHAINLINK_DECIMALS)
+      if (priceDelta !== undefined) return current.add(utils.parseUnits(priceDelta, CHAINLINK_DECIMALS))
+      return current
+    },
+    timestamp => timestamp.add(timeDelta ?? 0),
+  )
+}
+
+// Returns whether the action went through
+async function runAction(
+  context: ScenarioContext,
+  action: ScenarioAction,
+  stepName: string,
+  tolerateReverts = false,
+): Promise<boolean> {
+  const call = actionCall(context, action)
+  const description = `${stepName}: ${action.action}`
+
+  if (action.reverts) {
+    const { instanceVars, product } = context
+    const contracts = [product, instanceVars.collateral, instanceVars.incentivizer]
+    const contract = contracts.find(c => Object.keys(c.interface.errors).some(e => e.startsWith(`${action.reverts}(`)))
+    if (contract === undefined) throw new Error(`${description}: unknown error ${action.reverts}`)
+    await expect(call(), description).to.be.revertedWithCustomError(contract, action.reverts)
+    return false
+  }
+
+  if (!tolerateReverts) {
+    await call()
+    return true
+  }
+  if (await exceedsBalance(context, action)) return false
+  try {
+    await call()
+    return true
+  } catch (e) {
+    // Only actions the protocol rejects with one of its errors are skipped, panics and other failures are bugs
+    const decoded = decodeError(e)
+    if (decoded === undefined || decoded.name === 'Error' || decoded.name === 'Panic') throw e
+    return false
+  }
+}
+
+// Deposits beyond the DSU balance and withdrawals beyond the settled collateral revert with a reason string or an
+// underflow panic rather than a custom error, so they are skipped before they are sent
+async function exceedsBalance(context: ScenarioContext, action: ScenarioAction): Promise<boolean> {
+  if (action.action !== 'deposit' && action.action !== 'withdraw') return false
+  const { instanceVars, product } = context
+  const user = scenarioUsers(instanceVars)[action.user]
+  const amount = utils.parseEther(action.amount)
+
+  if (action.action === 'deposit') return amount.gt(await instanceVars.dsu.balanceOf(user.address))
+  return amount.gt(await instanceVars.lens.callStatic['collateral(address,address)'](user.address, product.address))
+}
+
+function actionCall(context: ScenarioContext, action: ScenarioAction): () => Promise<ContractTransaction | void> {
+  const { instanceVars, product, programIds } = context
+  const { dsu, collateral, incentivizer } = instanceVars
+  const users = scenarioUsers(instanceVars)
+  const amount = 'amount' in action ? utils.parseEther(action.amount) : BigNumber.from(0)
+
+  switch (action.action) {
+    case 'deposit':
+      return async () => {
+        await dsu.connect(users[action.user]).approve(collateral.address, amount)
+        return collateral.connect(users[action.user]).depositTo(users[action.user].address, product.address, amount)
+      }
+    case 'withdraw':
+      return () =>
+        collateral.connect(users[action.user]).withdrawTo(users[action.user].address, product.address, amount)
+    case 'openMake':
+      return () => product.connect(users[action.user]).openMake(amount)
+    case 'closeMake':
+      return () => product.connect(users[action.user]).closeMake(amount)
+    case 'openTake':
+      return () => product.connect(users[action.user]).openTake(amount)
+    case 'closeTake':
+      return () => product.connect(users[action.user]).closeTake(amount)
+    case 'settle':
+      return () => product.settle()
+    case 'settleAccount':
+      return () => product.settleAccount(users[action.user].address)
+    case 'liquidate':
+      return () => collateral.connect(users[action.liquidator]).liquidate(users[action.user].address, product.address)
+    case 'createProgram':
+      return async () => {
+        programIds.push(await createIncentiveProgram(instanceVars, product))
+      }
+    case 'claim':
+      return () => incentivizer.connect(users[action.user])['claim(address,uint256[])'](product.address, programIds)
+    case 'vaultDeposit':
+      return async () => {
+        const vault = await scenarioVault(context)
+        await dsu.connect(users[action.user]).approve(vault.address, amount)
+        return vault.connect(users[action.user]).deposit(amount, users[action.user].address)
+      }
+    case 'vaultRedeem':
+      return async () =>
+        (await scenarioVault(context)).connect(users[action.user]).redeem(amount, users[action.user].address)
+    case 'vaultClaim':
+      return async () => (await scenarioVault(context)).claim(users[action.user].address)
+  }
+}
+
+async function scenarioVault(context: ScenarioContext): Promise<TestnetVault> {
+  if (context.vault === undefined) {
+    const { owner, dsu } = context.instanceVars
+    context.vault = await new TestnetVault__factory(owner).deploy(dsu.address)
+  }
+  return context.vault
+}
+
+function scenarioUsers(instanceVars: InstanceVars): Record<ScenarioUser, SignerWithAddress> {
+  const { user, userB, userC, userD } = instanceVars
+  return { user, userB, userC, userD }
+}
+
+// Expectations with a decimal point are 18 decimal values, anything else is compared verbatim
+function parseExpected(expected: string): string {
+  return /^-?\d+\.\d+$/.test(expected) ? utils.parseEther(expected).toString() : expected
+}
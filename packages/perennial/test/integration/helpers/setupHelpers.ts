@@ -37,8 +37,13 @@ import {
   MultiInvoker__factory,
   IEmptySetReserve,
   IEmptySetReserve__factory,
+  TestnetBatcher__factory,
+  TestnetDSU__factory,
+  TestnetReserve__factory,
+  TestnetUSDC__factory,
 } from '../../../types/generated'
 import { ChainlinkContext } from './chainlinkHelpers'
+import { isForked } from './feedFixtureHelpers'
 import { createPayoffDefinition } from '../../../../common/testutil/types'
 const { config, deployments, ethers } = HRE
 
@@ -49,11 +54,24 @@ export const DSU_HOLDER = {
   mainnet: '0x0B663CeaCEF01f2f88EB7451C70Aa069f19dB997',
   arbitrum: '',
 }
+export const TESTNET_USDC_SUPPLY = utils.parseUnits('100000000', 6)
 export const USDC_HOLDER = {
   mainnet: '0x0A59649758aa4d66E25f08Dd01271e891fe52199',
   arbitrum: '0x8b8149dd385955dc1ce77a4be7700ccd6a212e65',
 }
 
+export type UpgradeableContract = 'Collateral' | 'Controller' | 'Incentivizer' | 'Product'
+
+/**
+ * Deploys the implementation of `contract` with the constructor `args`, returning its address
+ */
+export type ImplementationDeployer = (contract: UpgradeableContract, args: unknown[]) => Promise<string>
+
+export async function deployCompiledImplementation(contract: UpgradeableContract, args: unknown[]): Promise<string> {
+  const [owner] = await ethers.getSigners()
+  return (await (await ethers.getContractFactory(contract, owner)).deploy(...args)).address
+}
+
 export interface InstanceVars {
   owner: SignerWithAddress
   pauser: SignerWithAddress
@@ -84,7 +102,9 @@ export interface InstanceVars {
   incentiveToken: ERC20PresetMinterPauser
 }
 
-export async function deployProtocol(): Promise<InstanceVars> {
+export async function deployProtocol(
+  deployImplementation: ImplementationDeployer = deployCompiledImplementation,
+): Promise<InstanceVars> {
   await time.reset(config)
   const [owner, pauser, user, userB, userC, userD, treasuryA, treasuryB] = await ethers.getSigners()
 
@@ -101,30 +121,34 @@ export async function deployProtocol(): Promise<InstanceVars> {
     CHAINLINK_CUSTOM_CURRENCIES.USD,
   )
   const contractPayoffProvider = await new TestnetContractPayoffProvider__factory(owner).deploy()
-  const dsu = await IERC20Metadata__factory.connect((await deployments.get('DSU')).address, owner)
-  const usdc = await IERC20Metadata__factory.connect((await deployments.get('USDC')).address, owner)
-  const batcher = await Batcher__factory.connect((await deployments.get('Batcher')).address, owner)
+  const { dsu, usdc, batcher } = isForked()
+    ? {
+        dsu: await IERC20Metadata__factory.connect((await deployments.get('DSU')).address, owner),
+        usdc: await IERC20Metadata__factory.connect((await deployments.get('USDC')).address, owner),
+        batcher: await Batcher__factory.connect((await deployments.get('Batcher')).address, owner),
+      }
+    : await deployTestnetTokens(owner)
 
   // Deploy protocol contracts
   const proxyAdmin = await new ProxyAdmin__factory(owner).deploy()
 
-  const controllerImpl = await new Controller__factory(owner).deploy()
-  const incentivizerImpl = await new Incentivizer__factory(owner).deploy()
-  const collateralImpl = await new Collateral__factory(owner).deploy(dsu.address)
+  const controllerImpl = await deployImplementation('Controller', [])
+  const incentivizerImpl = await deployImplementation('Incentivizer', [])
+  const collateralImpl = await deployImplementation('Collateral', [dsu.address])
 
   const controllerProxy = await new TransparentUpgradeableProxy__factory(owner).deploy(
-    controllerImpl.address,
+    controllerImpl,
     proxyAdmin.address,
     [],
   )
   const incentivizerProxy = await new TransparentUpgradeableProxy__factory(owner).deploy(
-    incentivizerImpl.address,
+    incentivizerImpl,
     proxyAdmin.address,
     [],
   )
 
   const collateralProxy = await new TransparentUpgradeableProxy__factory(owner).deploy(
-    collateralImpl.address,
+    collateralImpl,
     proxyAdmin.address,
     [],
   )
@@ -133,7 +157,7 @@ export async function deployProtocol(): Promise<InstanceVars> {
   const incentivizer = await new Incentivizer__factory(owner).attach(incentivizerProxy.address)
   const collateral = await new Collateral__factory(owner).attach(collateralProxy.address)
 
-  const productImpl = await new Product__factory(owner).deploy()
+  const productImpl = Product__factory.connect(await deployImplementation('Product', []), owner)
   const productBeacon = await new UpgradeableBeacon__factory(owner).deploy(productImpl.address)
 
   // Init
@@ -214,6 +238,25 @@ export async function deployProtocol(): Promise<InstanceVars> {
   }
 }
 
+/**
+ * Deploys TestnetUSDC, TestnetDSU, TestnetReserve and TestnetBatcher in place of the external deployments
+ */
+export async function deployTestnetTokens(
+  owner: SignerWithAddress,
+): Promise<{ dsu: IERC20Metadata; usdc: IERC20Metadata; batcher: Batcher }> {
+  const usdc = await new TestnetUSDC__factory(owner).deploy()
+  const dsu = await new TestnetDSU__factory(owner).deploy(owner.address)
+  const reserve = await new TestnetReserve__factory(owner).deploy(dsu.address, usdc.address)
+  await dsu.updateMinter(reserve.address)
+  const batcher = await new TestnetBatcher__factory(owner).deploy(reserve.address, usdc.address, dsu.address)
+
+  return {
+    dsu: IERC20Metadata__factory.connect(dsu.address, owner),
+    usdc: IERC20Metadata__factory.connect(usdc.address, owner),
+    batcher: Batcher__factory.connect(batcher.address, owner),
+  }
+}
+
 export async function createProduct(
   instanceVars: InstanceVars,
   payoffProvider?: TestnetContractPayoffProvider,
@@ -313,6 +356,10 @@ export async function setupTokenHolders(
   const usdcHolder = await impersonate.impersonateWithBalance(usdcHolderAddress, utils.parseEther('10'))
   const dsuHolder = await impersonate.impersonateWithBalance(dsuHolderAddress, utils.parseEther('10'))
 
+  // Testnet USDC has no holders, so mint the holder's balance
+  if (!isForked())
+    await TestnetUSDC__factory.connect(usdc.address, usdcHolder).mint(usdcHolderAddress, TESTNET_USDC_SUPPLY)
+
   await usdc.connect(usdcHolder).approve(reserve.address, constants.MaxUint256)
   await reserve.connect(usdcHolder).mint(utils.parseEther('1000000'))
   await dsu.connect(usdcHolder).transfer(dsuHolder.address, utils.parseEther('1000000'))
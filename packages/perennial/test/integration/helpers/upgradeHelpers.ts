@@ -0,0 +1,125 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import HRE from 'hardhat'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { utils } from 'ethers'
+
+import { Product } from '../../../types/generated'
+import { LensSnapshots, takeLensSnapshots } from '../../../util'
+import {
+  InstanceVars,
+  ImplementationDeployer,
+  UpgradeableContract,
+  createIncentiveProgram,
+  createProduct,
+  deployCompiledImplementation,
+  depositTo,
+} from './setupHelpers'
+const { config, ethers } = HRE
+
+const POSITION = utils.parseEther('0.0001')
+const INCENTIVE_PROGRAM_ID = 0
+
+export interface PopulatedState {
+  products: Product[]
+  accounts: SignerWithAddress[]
+}
+
+export interface StateSnapshot {
+  lens: LensSnapshots
+  // Token balances and unclaimed incentive rewards, keyed by `<token or product>.<account>`
+  balances: { [key: string]: string }
+}
+
+/**
+ * Deploys implementations from the deployment artifacts of `network`, i.e. the bytecode that is currently live there
+ */
+export function deployedImplementations(network: string): ImplementationDeployer {
+  return async (contract: UpgradeableContract, args: unknown[]) => {
+    const [owner] = await ethers.getSigners()
+    const { abi, bytecode } = JSON.parse(
+      readFileSync(join(config.paths.deployments, network, `${contract}_Impl.json`), 'utf-8'),
+    )
+    return (await new ethers.ContractFactory(abi, bytecode, owner).deploy(...args)).address
+  }
+}
+
+/**
+ * Runs a scripted sequence of deposits, positions, settlements, an incentive program and a liquidation
+ */
+export async function populateProtocol(instanceVars: InstanceVars): Promise<PopulatedState> {
+  const { user, userB, userC, userD, collateral, chainlink } = instanceVars
+
+  const product = await createProduct(instanceVars)
+  await createIncentiveProgram(instanceVars, product)
+
+  // Liquidate userC's maker position
+  await depositTo(instanceVars, userC, product, utils.parseEther('500'))
+  await product.connect(userC).openMake(POSITION)
+  await chainlink.nextWithPriceModification(price => price.add(1000e8))
+  await product.settle()
+  await product.settleAccount(userC.address)
+  await collateral.connect(userD).liquidate(userC.address, product.address)
+  await chainlink.next()
+  await product.settleAccount(userC.address)
+
+  // Open a maker and taker position and settle a few versions of funding
+  await depositTo(instanceVars, user, product, utils.parseEther('1000'))
+  await depositTo(instanceVars, userB, product, utils.parseEther('1000'))
+  await product.connect(user).openMake(POSITION.mul(2))
+  await product.connect(userB).openTake(POSITION)
+  await chainlink.next()
+  await product.settle()
+  await chainlink.next()
+  await product.connect(userB).closeTake(POSITION.div(2))
+  await chainlink.next()
+  await product.settleAccount(user.address)
+  await product.settleAccount(userB.address)
+  await collateral.connect(user).withdrawTo(user.address, product.address, utils.parseEther('100'))
+
+  // Leave a pending position that settles after the upgrade
+  await product.connect(userB).openTake(POSITION.div(2))
+
+  return { products: [product], accounts: [user, userB, userC, userD] }
+}
+
+/**
+ * Snapshots every lens field of the populated products and accounts, along with their balances
+ */
+export async function takeStateSnapshot(instanceVars: InstanceVars, state: PopulatedState): Promise<StateSnapshot> {
+  const { lens, dsu, incentiveToken, incentivizer } = instanceVars
+  const products = state.products.map(product => product.address)
+  const accounts = state.accounts.map(account => account.address)
+
+  const balances: StateSnapshot['balances'] = {}
+  for (const account of accounts) {
+    balances[`${dsu.address}.${account}`] = (await dsu.balanceOf(account)).toString()
+    balances[`${incentiveToken.address}.${account}`] = (await incentiveToken.balanceOf(account)).toString()
+    for (const product of products) {
+      balances[`${product}.${account}`] = (
+        await incentivizer.unclaimed(product, account, INCENTIVE_PROGRAM_ID)
+      ).toString()
+    }
+  }
+
+  const users = products.reduce(
+    (acc: { [product: string]: string[] }, product) => ({ ...acc, [product]: accounts }),
+    {},
+  )
+  return { lens: await takeLensSnapshots(lens, products, users), balances }
+}
+
+/**
+ * Upgrades Collateral, Controller and Incentivizer through the ProxyAdmin and Product through its beacon to the
+ * compiled implementations
+ */
+export async function upgradeProtocol(instanceVars: InstanceVars): Promise<void> {
+  const { owner, dsu, proxyAdmin, collateral, controller, incentivizer, productBeacon } = instanceVars
+
+  await proxyAdmin.upgrade(collateral.address, await deployCompiledImplementation('Collateral', [dsu.address]))
+  await proxyAdmin.upgrade(controller.address, await deployCompiledImplementation('Controller', []))
+  await proxyAdmin.upgrade(incentivizer.address, await deployCompiledImplementation('Incentivizer', []))
+
+  const beacon = await ethers.getContractAt('UpgradeableBeacon', productBeacon.address, owner)
+  await beacon.upgradeTo(await deployCompiledImplementation('Product', []))
+}
@@ -0,0 +1,118 @@
+import { expect } from 'chai'
+import HRE from 'hardhat'
+import { utils } from 'ethers'
+import { mkdtemp } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { InstanceVars, deployProtocol, createProduct, depositTo, INITIAL_VERSION } from '../helpers/setupHelpers'
+import { createEventIndexer } from '../helpers/indexerHelpers'
+import { EventStore } from '../../../util'
+
+const { ethers } = HRE
+
+describe('Event Indexer', () => {
+  let instanceVars: InstanceVars
+  let startBlock: number
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    startBlock = await ethers.provider.getBlockNumber()
+  })
+
+  it('indexes products, users and product events in chunks', async () => {
+    const POSITION = utils.parseEther('0.0001')
+    const { user, userB, chainlink } = instanceVars
+
+    const product = await createProduct(instanceVars)
+    await depositTo(instanceVars, user, product, utils.parseEther('1000'))
+    await depositTo(instanceVars, userB, product, utils.parseEther('1000'))
+    await product.connect(user).openMake(POSITION)
+    await chainlink.next()
+    await product.settle()
+
+    const store = await EventStore.load(undefined, startBlock)
+    await createEventIndexer(instanceVars, store, { chunkSize: 3 }).sync()
+
+    expect(store.checkpoint).to.equal(await ethers.provider.getBlockNumber())
+    expect(store.products()).to.deep.equal([product.address])
+    expect(store.users(product.address)).to.deep.equal([user.address.toLowerCase(), userB.address.toLowerCase()])
+
+    const makeOpened = store.events({ address: product.address, event: 'MakeOpened' })
+    expect(makeOpened.length).to.equal(1)
+    expect(makeOpened[0].args).to.deep.equal({
+      account: user.address,
+      version: INITIAL_VERSION.toString(),
+      amount: POSITION.toString(),
+    })
+    expect(store.events({ address: product.address, event: 'Settle' }).length).to.equal(1)
+  })
+
+  it('syncs incrementally from the checkpoint', async () => {
+    const { user, userB } = instanceVars
+
+    const product = await createProduct(instanceVars)
+    await depositTo(instanceVars, user, product, utils.parseEther('1000'))
+
+    const store = await EventStore.load(undefined, startBlock)
+    const indexer = createEventIndexer(instanceVars, store)
+    await indexer.sync()
+    expect(store.events({ event: 'Deposit' }).length).to.equal(1)
+
+    await depositTo(instanceVars, userB, product, utils.parseEther('1000'))
+    expect(await indexer.sync()).to.be.gt(0)
+    expect(store.events({ event: 'Deposit' }).length).to.equal(2)
+    expect(await indexer.sync()).to.equal(0)
+    expect(store.events({ event: 'Deposit' }).length).to.equal(2)
+  })
+
+  it('respects the confirmation depth', async () => {
+    const { user } = instanceVars
+
+    const product = await createProduct(instanceVars)
+    await depositTo(instanceVars, user, product, utils.parseEther('1000'))
+
+    const store = await EventStore.load(undefined, startBlock)
+    await createEventIndexer(instanceVars, store, { confirmations: 2 }).sync()
+
+    expect(store.checkpoint).to.equal((await ethers.provider.getBlockNumber()) - 2)
+    expect(store.users(product.address)).to.deep.equal([])
+  })
+
+  it('persists the store and checkpoint to disk', async () => {
+    const { user } = instanceVars
+    const path = join(await mkdtemp(join(tmpdir(), 'perennial-indexer-')), 'events.json')
+
+    const product = await createProduct(instanceVars)
+    await depositTo(instanceVars, user, product, utils.parseEther('1000'))
+
+    const store = await EventStore.load(path, startBlock)
+    await createEventIndexer(instanceVars, store).sync()
+
+    const reloaded = await EventStore.load(path)
+    expect(reloaded.checkpoint).to.equal(store.checkpoint)
+    expect(reloaded.events()).to.deep.equal(store.events())
+    expect(reloaded.users(product.address)).to.deep.equal([user.address.toLowerCase()])
+  })
+
+  it('re-indexes from scratch when the checkpoint block is no longer on chain', async () => {
+    const { user, userB } = instanceVars
+
+    const product = await createProduct(instanceVars)
+    const snapshot = await ethers.provider.send('evm_snapshot', [])
+    await depositTo(instanceVars, user, product, utils.parseEther('1000'))
+
+    const store = await EventStore.load(undefined, startBlock)
+    const indexer = createEventIndexer(instanceVars, store)
+    await indexer.sync()
+    expect(store.users(product.address)).to.deep.equal([user.address.toLowerCase()])
+
+    // A restarted local chain reuses block numbers with different blocks
+    await ethers.provider.send('evm_revert', [snapshot])
+    await depositTo(instanceVars, userB, product, utils.parseEther('1000'))
+    await indexer.sync()
+
+    expect(store.products()).to.deep.equal([product.address])
+    expect(store.users(product.address)).to.deep.equal([userB.address.toLowerCase()])
+  })
+})
@@ -0,0 +1,106 @@
+import { expect } from 'chai'
+import HRE from 'hardhat'
+import { utils } from 'ethers'
+
+import { InstanceVars, deployProtocol, createProduct, depositTo } from '../helpers/setupHelpers'
+import { syncEventStore } from '../helpers/indexerHelpers'
+import { ICollateral, ICollateral__factory, IPerennialLens, IPerennialLens__factory } from '../../../types/generated'
+import { findLiquidatable, liquidateAccounts } from '../../../util'
+
+const { ethers } = HRE
+
+describe('Liquidation Keeper', () => {
+  let instanceVars: InstanceVars
+  let collateral: ICollateral
+  let lens: IPerennialLens
+  let startBlock: number
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    collateral = ICollateral__factory.connect(instanceVars.collateral.address, instanceVars.userB)
+    lens = IPerennialLens__factory.connect(instanceVars.lens.address, instanceVars.userB)
+    startBlock = await ethers.provider.getBlockNumber()
+  })
+
+  it('finds and liquidates liquidatable users', async () => {
+    const POSITION = utils.parseEther('0.0001')
+    const { user, userB, userC, chainlink } = instanceVars
+
+    const product = await createProduct(instanceVars)
+    await depositTo(instanceVars, user, product, utils.parseEther('500'))
+    await depositTo(instanceVars, userC, product, utils.parseEther('1000'))
+    await product.connect(user).openMake(POSITION)
+
+    const users = (await syncEventStore(instanceVars, startBlock)).users(product.address)
+    expect(users).to.deep.equal([user.address.toLowerCase(), userC.address.toLowerCase()])
+    expect(await findLiquidatable(lens, product.address, users)).to.deep.equal([])
+
+    await chainlink.nextWithPriceModification(price => price.add(1000e8))
+    await product.settle()
+    await product.settleAccount(user.address)
+
+    const liquidatable = await findLiquidatable(lens, product.address, users)
+    expect(liquidatable).to.deep.equal([user.address.toLowerCase()])
+
+    const results = await liquidateAccounts(collateral, product.address, liquidatable)
+    expect(results.length).to.equal(1)
+    expect(results[0].account).to.equal(user.address.toLowerCase())
+    expect(results[0].fee).to.equal('286895956958009478107')
+    expect(results[0].hash).to.not.be.undefined
+
+    expect(await product.isLiquidating(user.address)).to.be.true
+    expect(await instanceVars.dsu.balanceOf(userB.address)).to.equal(
+      utils.parseEther('20000').add('286895956958009478107'),
+    )
+  })
+
+  it('does not liquidate in dry run mode', async () => {
+    const POSITION = utils.parseEther('0.0001')
+    const { user, chainlink } = instanceVars
+
+    const product = await createProduct(instanceVars)
+    await depositTo(instanceVars, user, product, utils.parseEther('500'))
+    await product.connect(user).openMake(POSITION)
+
+    await chainlink.nextWithPriceModification(price => price.add(1000e8))
+    await product.settle()
+    await product.settleAccount(user.address)
+
+    const results = await liquidateAccounts(collateral, product.address, [user.address], { dryRun: true })
+    expect(results).to.deep.equal([{ account: user.address, product: product.address }])
+    expect(await product.isLiquidating(user.address)).to.be.false
+  })
+
+  it('respects the liquidation cap and skips non-liquidatable users', async () => {
+    const POSITION = utils.parseEther('0.0001')
+    const { user, userC, userD, chainlink } = instanceVars
+
+    const product = await createProduct(instanceVars)
+    await depositTo(instanceVars, user, product, utils.parseEther('500'))
+    await depositTo(instanceVars, userC, product, utils.parseEther('500'))
+    await depositTo(instanceVars, userD, product, utils.parseEther('1000'))
+    await product.connect(user).openMake(POSITION)
+    await product.connect(userC).openMake(POSITION)
+
+    await chainlink.nextWithPriceModification(price => price.add(1000e8))
+    await product.settle()
+    await product.settleAccount(user.address)
+    await product.settleAccount(userC.address)
+
+    const results = await liquidateAccounts(collateral, product.address, [userD.address, user.address, userC.address], {
+      maxLiquidations: 1,
+    })
+    expect(results.map(r => r.account)).to.deep.equal([user.address])
+    expect(await product.isLiquidating(user.address)).to.be.true
+    expect(await product.isLiquidating(userC.address)).to.be.false
+  })
+
+  it('throws failures other than accounts that are not liquidatable', async () => {
+    const { user } = instanceVars
+
+    await expect(liquidateAccounts(collateral, user.address, [user.address])).to.be.revertedWithCustomError(
+      instanceVars.collateral,
+      'NotProductError',
+    )
+  })
+})
@@ -0,0 +1,68 @@
+import { expect } from 'chai'
+import HRE from 'hardhat'
+import { utils } from 'ethers'
+
+import { InstanceVars, deployProtocol, createProduct, depositTo, INITIAL_VERSION } from '../helpers/setupHelpers'
+import { syncEventStore } from '../helpers/indexerHelpers'
+import { IPerennialLens__factory, IProduct, IProduct__factory } from '../../../types/generated'
+import { NonceManager, settleAccounts, settleProducts, topAccountsByExposure } from '../../../util'
+
+const { ethers } = HRE
+
+describe('Settlement Keeper', () => {
+  let instanceVars: InstanceVars
+  let nonceManager: NonceManager
+  let product: IProduct
+  let startBlock: number
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    const { user, userB, userC, userD } = instanceVars
+    nonceManager = new NonceManager(userD)
+    startBlock = await ethers.provider.getBlockNumber()
+
+    const POSITION = utils.parseEther('0.0001')
+    const created = await createProduct(instanceVars)
+    await depositTo(instanceVars, user, created, utils.parseEther('1000'))
+    await depositTo(instanceVars, userB, created, utils.parseEther('1000'))
+    await depositTo(instanceVars, userC, created, utils.parseEther('1000'))
+    await created.connect(user).openMake(POSITION)
+    await created.connect(userC).openMake(POSITION)
+    await created.connect(userB).openTake(POSITION)
+    product = IProduct__factory.connect(created.address, userD)
+  })
+
+  it('settles products once per oracle version', async () => {
+    const { chainlink } = instanceVars
+
+    expect(await settleProducts([product], nonceManager)).to.deep.equal([])
+
+    await chainlink.next()
+    const results = await settleProducts([product], nonceManager)
+    expect(results.length).to.equal(1)
+    expect(results[0].product).to.equal(product.address)
+    expect(results[0].toVersion).to.equal(INITIAL_VERSION + 1)
+    expect(await product['latestVersion()']()).to.equal(INITIAL_VERSION + 1)
+
+    expect(await settleProducts([product], nonceManager)).to.deep.equal([])
+  })
+
+  it('settles the top accounts by exposure', async () => {
+    const { user, userB, chainlink } = instanceVars
+    const lens = IPerennialLens__factory.connect(instanceVars.lens.address, instanceVars.userD)
+
+    await chainlink.next()
+    await settleProducts([product], nonceManager)
+
+    const users = (await syncEventStore(instanceVars, startBlock)).users(product.address)
+    const accounts = await topAccountsByExposure(lens, product.address, users, 1)
+    expect(accounts).to.deep.equal([userB.address.toLowerCase()])
+
+    const results = await settleAccounts(product, [...accounts, user.address], nonceManager)
+    expect(results.map(r => r.account)).to.deep.equal([userB.address, user.address])
+    expect(results[0].toVersion).to.equal(INITIAL_VERSION + 1)
+    expect(await product['latestVersion(address)'](userB.address)).to.equal(INITIAL_VERSION + 1)
+
+    expect(await settleAccounts(product, accounts, nonceManager)).to.deep.equal([])
+  })
+})
@@ -0,0 +1,68 @@
+import { expect } from 'chai'
+import 'hardhat'
+import { utils } from 'ethers'
+
+import { InstanceVars, deployProtocol, createProduct, depositTo } from '../helpers/setupHelpers'
+import { diffLensSnapshots, sampleAccounts, takeLensSnapshots } from '../../../util'
+
+describe('Lens snapshots', () => {
+  let instanceVars: InstanceVars
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+  })
+
+  it('diffs protocol and product snapshots', async () => {
+    const { lens, controller } = instanceVars
+    const product = await createProduct(instanceVars)
+
+    const before = await takeLensSnapshots(lens, [product.address])
+    expect(before.protocol['protocolFee']).to.equal(utils.parseEther('0.5').toString())
+    expect(before.products[product.address]['productInfo.symbol']).to.equal('SQTH')
+    expect(before.products[product.address]['productInfo.utilizationCurve.maxRate']).to.equal(
+      utils.parseEther('5').toString(),
+    )
+    expect(diffLensSnapshots(before, await takeLensSnapshots(lens, [product.address]))).to.deep.equal([])
+
+    await controller.updateProtocolFee(utils.parseEther('0.25'))
+    await product.updateMakerLimit(utils.parseEther('2'))
+
+    expect(diffLensSnapshots(before, await takeLensSnapshots(lens, [product.address]))).to.deep.equal([
+      {
+        path: 'protocol.protocolFee',
+        before: utils.parseEther('0.5').toString(),
+        after: utils.parseEther('0.25').toString(),
+      },
+      {
+        path: `${product.address}.productInfo.makerLimit`,
+        before: utils.parseEther('1').toString(),
+        after: utils.parseEther('2').toString(),
+      },
+    ])
+  })
+
+  it('diffs user snapshots', async () => {
+    const { lens, user } = instanceVars
+    const product = await createProduct(instanceVars)
+    await depositTo(instanceVars, user, product, utils.parseEther('1000'))
+    const users = { [product.address]: [user.address] }
+
+    const before = await takeLensSnapshots(lens, [product.address], users)
+    expect(before.users[product.address][user.address]['collateral']).to.equal(utils.parseEther('1000').toString())
+
+    await depositTo(instanceVars, user, product, utils.parseEther('500'))
+
+    const diffs = diffLensSnapshots(before, await takeLensSnapshots(lens, [product.address], users))
+    expect(diffs).to.deep.include({
+      path: `${product.address}.${user.address}.collateral`,
+      before: utils.parseEther('1000').toString(),
+      after: utils.parseEther('1500').toString(),
+    })
+  })
+
+  it('samples accounts evenly', async () => {
+    const accounts = ['a', 'b', 'c', 'd', 'e', 'f']
+    expect(sampleAccounts(accounts, 10)).to.deep.equal(accounts)
+    expect(sampleAccounts(accounts, 3)).to.deep.equal(['a', 'c', 'e'])
+  })
+})
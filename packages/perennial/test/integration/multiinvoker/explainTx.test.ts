@@ -0,0 +1,83 @@
+import { expect } from 'chai'
+import { constants, utils } from 'ethers'
+import { Product } from '../../../types/generated'
+import {
+  decodeInvocations,
+  decodeReceiptEvents,
+  explainEvent,
+  explainInvocation,
+  InvocationBuilder,
+  isInvokeCalldata,
+  labelAddresses,
+} from '../../../util'
+
+import { InstanceVars, deployProtocol, createProduct } from '../helpers/setupHelpers'
+
+describe('Transaction explainer', () => {
+  let instanceVars: InstanceVars
+  let product: Product
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    const { user, dsu, usdc, usdcHolder, multiInvoker } = instanceVars
+
+    await usdc.connect(usdcHolder).transfer(user.address, 1_000_000e6)
+    await usdc.connect(user).approve(multiInvoker.address, constants.MaxUint256)
+    await dsu.connect(user).approve(multiInvoker.address, constants.MaxUint256)
+    product = await createProduct(instanceVars)
+  })
+
+  it('explains invocations and receipt events', async () => {
+    const { user, lens, collateral, multiInvoker } = instanceVars
+
+    const builder = new InvocationBuilder(user.address)
+      .wrapAndDeposit(product.address, utils.parseEther('10000.0000001'))
+      .openMake(product.address, utils.parseEther('0.001'))
+      .withdraw(product.address, utils.parseEther('10'))
+    const receipt = await (await multiInvoker.connect(user).invoke(builder.build())).wait()
+
+    const steps = decodeInvocations(builder.encode())
+    const events = decodeReceiptEvents(receipt)
+    const labels = await labelAddresses(lens, [user.address, product.address, collateral.address], {
+      Collateral_Proxy: collateral.address,
+    })
+    expect(labels[product.address.toLowerCase()]).to.equal('SQTH')
+    expect(labels[collateral.address.toLowerCase()]).to.equal('Collateral_Proxy')
+    expect(labels[user.address.toLowerCase()]).to.be.undefined
+
+    // USDC is pulled rounded up to 6 decimals
+    expect(explainInvocation(steps[0], labels)).to.equal(
+      `WRAP_AND_DEPOSIT account=${user.address} product=SQTH (${product.address}) amount=10000.000001 USDC`,
+    )
+    expect(explainInvocation(steps[1], labels)).to.equal(`OPEN_MAKE product=SQTH (${product.address}) amount=0.001`)
+    expect(explainInvocation(steps[2], labels)).to.equal(
+      `WITHDRAW receiver=${user.address} product=SQTH (${product.address}) amount=10.0 DSU`,
+    )
+
+    // Settlement events depend on the oracle, so only the events of the steps are compared
+    const stepEvents = events.filter(({ event }) => ['Deposit', 'MakeOpened', 'Withdrawal'].includes(event))
+    expect(stepEvents.map(({ contract, event }) => `${contract}.${event}`)).to.deep.equal([
+      'Collateral.Deposit',
+      'Product.MakeOpened',
+      'Collateral.Withdrawal',
+    ])
+    expect(explainEvent(stepEvents[0], labels)).to.equal(
+      `Collateral(Collateral_Proxy (${collateral.address})).Deposit user=${user.address} ` +
+        `product=SQTH (${product.address}) amount=10000.0000001`,
+    )
+  })
+
+  it('explains the events of transactions that are not invoke calls', async () => {
+    const { user, dsu, collateral } = instanceVars
+    await dsu.connect(user).approve(collateral.address, constants.MaxUint256)
+    const tx = await collateral.connect(user).depositTo(user.address, product.address, utils.parseEther('1000'))
+    const receipt = await tx.wait()
+
+    expect(isInvokeCalldata(tx.data)).to.be.false
+    expect(isInvokeCalldata('0x')).to.be.false
+    expect(isInvokeCalldata(new InvocationBuilder(user.address).encode())).to.be.true
+    expect(decodeReceiptEvents(receipt).map(({ contract, event }) => `${contract}.${event}`)).to.include(
+      'Collateral.Deposit',
+    )
+  })
+})
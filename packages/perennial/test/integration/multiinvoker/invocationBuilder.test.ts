@@ -0,0 +1,92 @@
+import { expect } from 'chai'
+import { constants, utils } from 'ethers'
+import { Product, TestnetVault, TestnetVault__factory } from '../../../types/generated'
+import {
+  decodeInvocations,
+  encodeInvocation,
+  formatInvocation,
+  InvocationBuilder,
+  PerennialAction,
+} from '../../../util'
+
+import { InstanceVars, deployProtocol, createProduct } from '../helpers/setupHelpers'
+
+describe('InvocationBuilder', () => {
+  let instanceVars: InstanceVars
+  let productA: Product
+  let productB: Product
+  let vault: TestnetVault
+
+  const POSITION = utils.parseEther('0.001')
+  const AMOUNT = utils.parseEther('10000')
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    const { owner, user, dsu, usdc, usdcHolder, multiInvoker } = instanceVars
+
+    await usdc.connect(usdcHolder).transfer(user.address, 1_000_000e6)
+    await usdc.connect(user).approve(multiInvoker.address, constants.MaxUint256)
+    await dsu.connect(user).approve(multiInvoker.address, constants.MaxUint256)
+
+    productA = await createProduct(instanceVars)
+    productB = await createProduct(instanceVars)
+    vault = await new TestnetVault__factory(owner).deploy(dsu.address)
+    await vault._incrementVersion()
+  })
+
+  it('chains actions across products and a vault', async () => {
+    const { user, collateral, multiInvoker } = instanceVars
+
+    const invocations = new InvocationBuilder(user.address)
+      .wrapAndDeposit(productA.address, AMOUNT)
+      .openMake(productA.address, POSITION)
+      .wrapAndDeposit(productB.address, AMOUNT.div(2))
+      .openMake(productB.address, POSITION.div(2))
+      .wrap(AMOUNT)
+      .vaultDeposit(vault.address, AMOUNT)
+      .build()
+
+    await expect(multiInvoker.connect(user).invoke(invocations))
+      .to.emit(productA, 'MakeOpened')
+      .to.emit(productB, 'MakeOpened')
+      .to.emit(vault, 'Deposit')
+
+    expect(await collateral['collateral(address,address)'](user.address, productA.address)).to.equal(AMOUNT)
+    expect(await collateral['collateral(address,address)'](user.address, productB.address)).to.equal(AMOUNT.div(2))
+    expect((await productA['pre(address)'](user.address)).openPosition.maker).to.equal(POSITION)
+    expect((await productB['pre(address)'](user.address)).openPosition.maker).to.equal(POSITION.div(2))
+    expect(await vault.balanceOf(user.address)).to.equal(AMOUNT)
+  })
+
+  it('decodes invoke calldata into steps', async () => {
+    const { user, multiInvoker } = instanceVars
+
+    const builder = new InvocationBuilder(user.address)
+      .deposit(productA.address, AMOUNT)
+      .openTake(productA.address, POSITION)
+      .claim(productA.address, [1, 2])
+      .vaultClaim(vault.address)
+    const tx = await multiInvoker.connect(user).populateTransaction.invoke(builder.build())
+    expect(tx.data).to.equal(builder.encode())
+
+    const steps = decodeInvocations(builder.encode())
+    expect(steps.map(({ action }) => action)).to.deep.equal(['DEPOSIT', 'OPEN_TAKE', 'CLAIM', 'VAULT_CLAIM'])
+    expect(steps[0].args.account).to.equal(user.address)
+    expect(steps[0].args.product).to.equal(productA.address)
+    expect(steps[0].args.amount).to.equal(AMOUNT)
+    expect(formatInvocation(steps[1])).to.equal(`OPEN_TAKE product=${productA.address} amount=0.001`)
+    expect(formatInvocation(steps[2])).to.equal(`CLAIM product=${productA.address} programIds=[1, 2]`)
+    expect(formatInvocation(steps[3])).to.equal(`VAULT_CLAIM owner=${user.address} vault=${vault.address}`)
+  })
+
+  it('rejects arguments that do not match the action', async () => {
+    const { user } = instanceVars
+
+    expect(() => new InvocationBuilder(user.address).openTake('0x1234', POSITION)).to.throw('invalid address')
+    expect(() => new InvocationBuilder(user.address).deposit(productA.address, -1)).to.throw('value out-of-bounds')
+    expect(() => encodeInvocation(PerennialAction.OPEN_TAKE, [productA.address])).to.throw(
+      'OPEN_TAKE takes 2 arguments, got 1',
+    )
+    expect(() => encodeInvocation(99 as PerennialAction)).to.throw('Unknown MultiInvoker action 99')
+  })
+})
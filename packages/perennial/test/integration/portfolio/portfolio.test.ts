@@ -0,0 +1,56 @@
+import { expect } from 'chai'
+import HRE from 'hardhat'
+import { utils } from 'ethers'
+
+import { InstanceVars, deployProtocol, createProduct, depositTo } from '../helpers/setupHelpers'
+import { syncEventStore } from '../helpers/indexerHelpers'
+import { IPerennialLens__factory } from '../../../types/generated'
+import { getPortfolio, portfolioTotals } from '../../../util'
+
+const { ethers } = HRE
+
+describe('Portfolio', () => {
+  let instanceVars: InstanceVars
+  let startBlock: number
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    startBlock = await ethers.provider.getBlockNumber()
+  })
+
+  it('returns the account holdings across products', async () => {
+    const POSITION = utils.parseEther('0.0001')
+    const { owner, user, userB, chainlink } = instanceVars
+    const lens = IPerennialLens__factory.connect(instanceVars.lens.address, owner)
+
+    const productA = await createProduct(instanceVars)
+    const productB = await createProduct(instanceVars)
+    await depositTo(instanceVars, user, productA, utils.parseEther('1000'))
+    await depositTo(instanceVars, user, productB, utils.parseEther('500'))
+    await depositTo(instanceVars, userB, productA, utils.parseEther('1000'))
+    await productA.connect(user).openMake(POSITION)
+    await productA.connect(userB).openTake(POSITION)
+    await chainlink.next()
+    await productA.connect(user).openMake(POSITION)
+
+    const products = (await syncEventStore(instanceVars, startBlock)).accountProducts(user.address)
+    expect(products).to.deep.equal([productA.address, productB.address])
+
+    const entries = await getPortfolio(lens, user.address, products)
+    expect(entries.length).to.equal(2)
+    expect(entries[0].product).to.equal(productA.address)
+    expect(entries[0].symbol).to.equal('SQTH')
+    expect(entries[0].snapshot.position.maker).to.equal(POSITION)
+    expect(entries[0].snapshot.pre.openPosition.maker).to.equal(POSITION)
+    expect(entries[0].snapshot.liquidatable).to.be.false
+    expect(entries[0].snapshot.exposure).to.be.gt(0)
+    expect(entries[1].snapshot.collateral).to.equal(utils.parseEther('500'))
+    expect(entries[1].snapshot.position.maker).to.equal(0)
+    expect(entries[1].rewards).to.deep.equal([])
+
+    const totals = portfolioTotals(entries)
+    expect(totals.collateral).to.equal(entries[0].snapshot.collateral.add(utils.parseEther('500')))
+    expect(totals.maintenance).to.equal(entries[0].snapshot.maintenance)
+    expect(totals.exposure).to.equal(entries[0].snapshot.exposure)
+  })
+})
@@ -0,0 +1,111 @@
+import { expect } from 'chai'
+import HRE from 'hardhat'
+import { utils } from 'ethers'
+
+import { InstanceVars, deployProtocol } from '../helpers/setupHelpers'
+import { createPayoffDefinition } from '../../../../common/testutil/types'
+import { ProductInfo, validateProductInfo } from '../../../../common/testutil/productInfo'
+
+const { ethers } = HRE
+
+describe('ProductInfo validation', () => {
+  let instanceVars: InstanceVars
+  let productInfo: ProductInfo
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+    const { chainlinkOracle, contractPayoffProvider } = instanceVars
+
+    productInfo = {
+      name: 'Squeeth',
+      symbol: 'SQTH',
+      payoffDefinition: createPayoffDefinition({ contractAddress: contractPayoffProvider.address }),
+      oracle: chainlinkOracle.address,
+      maintenance: utils.parseEther('0.3'),
+      fundingFee: utils.parseEther('0.1'),
+      makerFee: 0,
+      takerFee: 0,
+      positionFee: 0,
+      makerLimit: utils.parseEther('1'),
+      utilizationCurve: {
+        minRate: 0,
+        maxRate: utils.parseEther('5.00'),
+        targetRate: utils.parseEther('0.80'),
+        targetUtilization: utils.parseEther('0.80'),
+      },
+    }
+  })
+
+  it('accepts a valid product', async () => {
+    const { controller } = instanceVars
+
+    expect(await validateProductInfo(productInfo, { provider: ethers.provider, controller })).to.deep.equal({
+      errors: [],
+      warnings: [],
+    })
+  })
+
+  it('reports params and curve errors', async () => {
+    const { errors } = await validateProductInfo({
+      ...productInfo,
+      takerFee: utils.parseEther('1.5'),
+      utilizationCurve: {
+        minRate: utils.parseEther('1.00'),
+        maxRate: utils.parseEther('0.50'),
+        targetRate: utils.parseEther('0.80'),
+        targetUtilization: utils.parseEther('1'),
+      },
+    })
+
+    expect(errors.map(({ field }) => field)).to.deep.equal([
+      'takerFee',
+      'utilizationCurve.minRate',
+      'utilizationCurve.targetRate',
+      'utilizationCurve.targetUtilization',
+    ])
+  })
+
+  it('reports malformed payoff definitions', async () => {
+    const { user } = instanceVars
+
+    const passthrough = createPayoffDefinition()
+    const { errors } = await validateProductInfo(
+      { ...productInfo, payoffDefinition: { ...passthrough, payoffDirection: 2, data: `0x${'01'.padStart(60, '0')}` } },
+      { provider: ethers.provider },
+    )
+    expect(errors.map(({ field }) => field)).to.deep.equal([
+      'payoffDefinition.payoffDirection',
+      'payoffDefinition.data',
+    ])
+
+    const { errors: contractErrors } = await validateProductInfo(
+      { ...productInfo, payoffDefinition: createPayoffDefinition({ contractAddress: user.address }) },
+      { provider: ethers.provider },
+    )
+    expect(contractErrors.map(({ field }) => field)).to.deep.equal(['payoffDefinition.data'])
+  })
+
+  it('reports an oracle that does not implement IOracleProvider', async () => {
+    const { user, dsu } = instanceVars
+
+    const { errors: eoaErrors } = await validateProductInfo(
+      { ...productInfo, oracle: user.address },
+      { provider: ethers.provider },
+    )
+    expect(eoaErrors).to.deep.equal([{ field: 'oracle', message: `oracle ${user.address} is not a contract` }])
+
+    const { errors } = await validateProductInfo({ ...productInfo, oracle: dsu.address }, { provider: ethers.provider })
+    expect(errors).to.deep.equal([
+      { field: 'oracle', message: `oracle ${dsu.address} does not implement IOracleProvider` },
+    ])
+  })
+
+  it('warns when the funding fee is below the Controller minimum', async () => {
+    const { controller } = instanceVars
+    await controller.updateMinFundingFee(utils.parseEther('0.2'))
+
+    const { errors, warnings } = await validateProductInfo(productInfo, { controller })
+    expect(errors).to.deep.equal([])
+    expect(warnings.map(({ field }) => field)).to.deep.equal(['fundingFee'])
+  })
+})
@@ -5,13 +5,13 @@ import { BigNumber, utils } from 'ethers'
 import { InstanceVars, deployProtocol, createProduct, depositTo } from '../helpers/setupHelpers'
 import { createPayoffDefinition, expectPositionEq, expectPrePositionEq } from '../../../../common/testutil/types'
 import { DataFeedContext } from '../helpers/feedOracleHelper'
+import { dataFeedAddress } from '../helpers/feedFixtureHelpers'
 import {
   ReservoirFeedOracle,
   ReservoirFeedOracle__factory,
   TestnetContractPayoffProvider,
   TestnetContractPayoffProvider__factory,
 } from '../../../types/generated'
-import { deployments } from 'hardhat'
 
 const VERSION_OFFSET = BigNumber.from('92233720368547761313')
 const INITIAL_VERSION = BigNumber.from(1)
@@ -46,7 +46,7 @@ describe('Reservoir Oracle Product', () => {
 
     // Reservoir has not deployed their feed adaptor to mainnet, so for now use Chainlink's DPI feed as a standin
     // TODO(arjun): Update this with Reservoir's mainnet deploy
-    const baycUSDCFeed = (await deployments.get('ChainlinkDPIFeed')).address
+    const baycUSDCFeed = await dataFeedAddress('ChainlinkDPIFeed')
     oracleFeed = new DataFeedContext(baycUSDCFeed, VERSION_OFFSET)
     await oracleFeed.init()
 
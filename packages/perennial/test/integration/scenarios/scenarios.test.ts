@@ -0,0 +1,24 @@
+import 'hardhat'
+import { readdirSync, readFileSync } from 'fs'
+import { join } from 'path'
+
+import { InstanceVars, deployProtocol } from '../helpers/setupHelpers'
+import { Scenario, runScenario } from '../helpers/scenarioHelpers'
+
+const SCENARIOS: Scenario[] = readdirSync(__dirname)
+  .filter(file => file.endsWith('.json'))
+  .map(file => JSON.parse(readFileSync(join(__dirname, file), 'utf-8')))
+
+describe('Scenarios', () => {
+  let instanceVars: InstanceVars
+
+  beforeEach(async () => {
+    instanceVars = await deployProtocol()
+  })
+
+  SCENARIOS.forEach(scenario => {
+    it(scenario.name, async () => {
+      await runScenario(instanceVars, scenario)
+    })
+  })
+})
@@ -0,0 +1,60 @@
+import { expect } from 'chai'
+import 'hardhat'
+import { utils } from 'ethers'
+
+import { InstanceVars, ImplementationDeployer, deployProtocol } from '../helpers/setupHelpers'
+import {
+  PopulatedState,
+  deployedImplementations,
+  populateProtocol,
+  takeStateSnapshot,
+  upgradeProtocol,
+} from '../helpers/upgradeHelpers'
+import { diffLensSnapshots } from '../../../util'
+
+const PREVIOUS_IMPLEMENTATIONS: { [name: string]: ImplementationDeployer | undefined } = {
+  'mainnet implementations': deployedImplementations('mainnet'),
+  'compiled implementations': undefined,
+}
+
+describe('Upgrade', () => {
+  Object.entries(PREVIOUS_IMPLEMENTATIONS).forEach(([name, deployImplementation]) => {
+    describe(`from ${name}`, () => {
+      let instanceVars: InstanceVars
+      let state: PopulatedState
+
+      beforeEach(async () => {
+        instanceVars = await deployProtocol(deployImplementation)
+        state = await populateProtocol(instanceVars)
+      })
+
+      it('preserves every lens field and balance', async () => {
+        const { proxyAdmin, collateral, productBeacon } = instanceVars
+        const previousCollateral = await proxyAdmin.getProxyImplementation(collateral.address)
+        const previousProduct = await productBeacon.implementation()
+
+        const before = await takeStateSnapshot(instanceVars, state)
+        await upgradeProtocol(instanceVars)
+        const after = await takeStateSnapshot(instanceVars, state)
+
+        expect(await proxyAdmin.getProxyImplementation(collateral.address)).to.not.equal(previousCollateral)
+        expect(await productBeacon.implementation()).to.not.equal(previousProduct)
+        expect(diffLensSnapshots(before.lens, after.lens)).to.deep.equal([])
+        expect(after.balances).to.deep.equal(before.balances)
+      })
+
+      it('keeps settling after the upgrade', async () => {
+        const { userB, chainlink } = instanceVars
+        const [product] = state.products
+
+        await upgradeProtocol(instanceVars)
+        await chainlink.next()
+        await product.settle()
+        await product.settleAccount(userB.address)
+
+        // The take opened before the upgrade settles into userB's position
+        expect((await product['position(address)'](userB.address)).taker).to.equal(utils.parseEther('0.0001'))
+      })
+    })
+  })
+})
@@ -0,0 +1,139 @@
+import { BigNumber, constants, utils } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import HRE from 'hardhat'
+
+import { TestnetFixedMath, TestnetFixedMath__factory } from '../../../types/generated'
+import { Fixed18Math, UFixed18Math, UFixed6Math } from '../../../../common/testutil/fixed'
+
+const { ethers } = HRE
+
+// Operands chosen to exercise rounding in both directions and around the sign boundary
+const UNSIGNED = [
+  constants.Zero,
+  BigNumber.from(1),
+  BigNumber.from(3),
+  utils.parseEther('0.000000000000000007'),
+  utils.parseEther('1'),
+  utils.parseEther('1.5'),
+  utils.parseEther('3'),
+  utils.parseEther('1337.123456789123456789'),
+]
+const SIGNED = UNSIGNED.reduce(
+  (acc: BigNumber[], value) => acc.concat(value.isZero() ? [value] : [value, value.mul(-1)]),
+  [],
+)
+
+describe('Fixed point math', () => {
+  let user: SignerWithAddress
+  let fixedMath: TestnetFixedMath
+
+  beforeEach(async () => {
+    ;[user] = await ethers.getSigners()
+    fixedMath = await new TestnetFixedMath__factory(user).deploy()
+  })
+
+  describe('UFixed18Math', () => {
+    it('matches UFixed18 mul, div and unsafeDiv', async () => {
+      for (const a of UNSIGNED) {
+        for (const b of UNSIGNED) {
+          expect(UFixed18Math.mul(a, b), `${a} * ${b}`).to.equal(await fixedMath.ufixed18Mul(a, b))
+          expect(UFixed18Math.unsafeDiv(a, b), `${a} / ${b}`).to.equal(await fixedMath.ufixed18UnsafeDiv(a, b))
+          if (!b.isZero()) expect(UFixed18Math.div(a, b), `${a} / ${b}`).to.equal(await fixedMath.ufixed18Div(a, b))
+        }
+      }
+    })
+
+    it('matches UFixed18 conversion from Fixed18', async () => {
+      for (const a of UNSIGNED) {
+        expect(UFixed18Math.fromFixed18(a)).to.equal(await fixedMath.ufixed18FromFixed18(a))
+      }
+      await expect(fixedMath.ufixed18FromFixed18(-1)).to.be.reverted
+      expect(() => UFixed18Math.fromFixed18(BigNumber.from(-1))).to.throw('UFixed18UnderflowError')
+    })
+
+    // root 0.2.0 has no mulOut or divOut, so they are only checked to round the Solidity mul and div up
+    it('rounds mul and div up with mulOut and divOut', async () => {
+      for (const a of UNSIGNED) {
+        for (const b of UNSIGNED) {
+          const mul = await fixedMath.ufixed18Mul(a, b)
+          const mulExact = a.mul(b).mod(UFixed18Math.BASE).isZero()
+          expect(UFixed18Math.mulOut(a, b), `${a} * ${b}`).to.equal(mulExact ? mul : mul.add(1))
+          if (b.isZero()) continue
+          const div = await fixedMath.ufixed18Div(a, b)
+          const divExact = a.mul(UFixed18Math.BASE).mod(b).isZero()
+          expect(UFixed18Math.divOut(a, b), `${a} / ${b}`).to.equal(divExact ? div : div.add(1))
+        }
+      }
+    })
+
+    it('throws where UFixed18 reverts', async () => {
+      expect(() => UFixed18Math.sub(BigNumber.from(1), BigNumber.from(2))).to.throw('underflow')
+      expect(() => UFixed18Math.mul(constants.MaxUint256, BigNumber.from(2))).to.throw('overflow')
+      expect(() => UFixed18Math.parse('-1')).to.throw('underflow')
+    })
+
+    // root 0.2.0 has no UFixed6, so conversions are checked against hand-computed values only
+    it('converts from UFixed6 and back', async () => {
+      const value = UFixed6Math.parse('1.234567')
+      expect(UFixed18Math.fromUFixed6(value)).to.equal(utils.parseEther('1.234567'))
+      expect(UFixed6Math.fromUFixed18(utils.parseEther('1.2345671'))).to.equal(value)
+      expect(UFixed6Math.fromUFixed18(utils.parseEther('1.2345671'), true)).to.equal(value.add(1))
+      expect(UFixed6Math.fromUFixed18(utils.parseEther('1.234567'), true)).to.equal(value)
+    })
+
+    it('parses and formats', async () => {
+      expect(UFixed18Math.parse('1.5')).to.equal(utils.parseEther('1.5'))
+      expect(UFixed18Math.format(utils.parseEther('1.5'))).to.equal('1.5')
+      expect(UFixed6Math.format(UFixed6Math.from(2))).to.equal('2.0')
+    })
+  })
+
+  describe('Fixed18Math', () => {
+    it('matches Fixed18 mul, div and unsafeDiv', async () => {
+      for (const a of SIGNED) {
+        for (const b of SIGNED) {
+          expect(Fixed18Math.mul(a, b), `${a} * ${b}`).to.equal(await fixedMath.fixed18Mul(a, b))
+          expect(Fixed18Math.unsafeDiv(a, b), `${a} / ${b}`).to.equal(await fixedMath.fixed18UnsafeDiv(a, b))
+          if (!b.isZero()) expect(Fixed18Math.div(a, b), `${a} / ${b}`).to.equal(await fixedMath.fixed18Div(a, b))
+        }
+      }
+    })
+
+    it('matches Fixed18 sign handling', async () => {
+      for (const a of SIGNED) {
+        expect(Fixed18Math.sign(a)).to.equal((await fixedMath.fixed18Sign(a)).toNumber())
+        expect(Fixed18Math.abs(a)).to.equal(await fixedMath.fixed18Abs(a))
+      }
+      for (const sign of [-1, 0, 1]) {
+        for (const m of UNSIGNED) {
+          expect(Fixed18Math.fromSign(sign, m)).to.equal(await fixedMath.fixed18FromSign(sign, m))
+        }
+      }
+    })
+
+    it('rounds mul and div away from zero with mulOut and divOut', async () => {
+      const away = (value: BigNumber, sign: number) => (sign < 0 ? value.sub(1) : value.add(1))
+      for (const a of SIGNED) {
+        for (const b of SIGNED) {
+          const mul = await fixedMath.fixed18Mul(a, b)
+          const mulExact = a.mul(b).abs().mod(Fixed18Math.BASE).isZero()
+          const sign = Fixed18Math.sign(a) * Fixed18Math.sign(b)
+          expect(Fixed18Math.mulOut(a, b), `${a} * ${b}`).to.equal(mulExact ? mul : away(mul, sign))
+          if (b.isZero()) continue
+          const div = await fixedMath.fixed18Div(a, b)
+          const divExact = a.mul(Fixed18Math.BASE).abs().mod(b.abs()).isZero()
+          expect(Fixed18Math.divOut(a, b), `${a} / ${b}`).to.equal(divExact ? div : away(div, sign))
+        }
+      }
+    })
+
+    it('parses, formats and bounds', async () => {
+      expect(Fixed18Math.parse('-1.5')).to.equal(utils.parseEther('-1.5'))
+      expect(Fixed18Math.format(utils.parseEther('-1.5'))).to.equal('-1.5')
+      expect(Fixed18Math.min(utils.parseEther('-1'), utils.parseEther('1'))).to.equal(utils.parseEther('-1'))
+      expect(Fixed18Math.max(utils.parseEther('-1'), utils.parseEther('1'))).to.equal(utils.parseEther('1'))
+      expect(() => Fixed18Math.fromUFixed18(constants.MaxUint256)).to.throw('Fixed18OverflowError')
+    })
+  })
+})
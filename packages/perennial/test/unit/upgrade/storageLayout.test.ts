@@ -0,0 +1,117 @@
+import { expect } from 'chai'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+
+import {
+  compareStorageLayouts,
+  StorageLayout,
+  StorageLayoutItem,
+  StorageLayoutType,
+} from '../../../../common/testutil/storageLayout'
+
+const COLLATERAL_LAYOUT: StorageLayout = JSON.parse(
+  readFileSync(join(__dirname, '../../../deployments/mainnet/Collateral_Impl.json'), 'utf-8'),
+).storageLayout
+
+const LEDGER_TYPE = 't_struct(OptimisticLedger)11934_storage'
+
+function copyLayout(): { storage: StorageLayoutItem[]; types: { [id: string]: StorageLayoutType } } {
+  return JSON.parse(JSON.stringify(COLLATERAL_LAYOUT))
+}
+
+function ledgerMembers(layout: StorageLayout): StorageLayoutItem[] {
+  return layout.types?.[LEDGER_TYPE].members ?? []
+}
+
+describe('compareStorageLayouts', () => {
+  it('accepts an identical layout', () => {
+    expect(compareStorageLayouts(COLLATERAL_LAYOUT, copyLayout())).to.deep.equal([])
+  })
+
+  it('ignores AST ids in type identifiers', () => {
+    const compiled = JSON.parse(JSON.stringify(COLLATERAL_LAYOUT).replace(/\)(\d+)/g, (_, id) => `)${Number(id) + 1}`))
+    expect(compareStorageLayouts(COLLATERAL_LAYOUT, compiled)).to.deep.equal([])
+  })
+
+  it('accepts an appended variable', () => {
+    const compiled = copyLayout()
+    compiled.storage.push({ label: 'newValue', offset: 0, slot: '2', type: 't_address' })
+
+    expect(compareStorageLayouts(COLLATERAL_LAYOUT, compiled)).to.deep.equal([])
+  })
+
+  it('accepts a new member on a struct behind a mapping', () => {
+    const compiled = copyLayout()
+    ledgerMembers(compiled).push({ label: 'newMember', offset: 0, slot: '3', type: 't_address' })
+    compiled.types[LEDGER_TYPE].numberOfBytes = '128'
+
+    expect(compareStorageLayouts(COLLATERAL_LAYOUT, compiled)).to.deep.equal([])
+  })
+
+  it('rejects a removed variable', () => {
+    const compiled = copyLayout()
+    compiled.storage.pop()
+
+    const issues = compareStorageLayouts(COLLATERAL_LAYOUT, compiled)
+    expect(issues).to.have.length(1)
+    expect(issues[0].severity).to.equal('error')
+    expect(issues[0].variable).to.equal('fees')
+    expect(issues[0].message).to.contain('was removed')
+  })
+
+  it('rejects reordered variables', () => {
+    const compiled = copyLayout()
+    const [products, fees] = compiled.storage
+    compiled.storage = [
+      { ...fees, slot: products.slot },
+      { ...products, slot: fees.slot },
+    ]
+
+    const issues = compareStorageLayouts(COLLATERAL_LAYOUT, compiled)
+    expect(issues.map(issue => issue.variable)).to.deep.equal(['_products', 'fees'])
+    issues.forEach(issue => {
+      expect(issue.severity).to.equal('error')
+      expect(issue.message).to.contain('moved from')
+    })
+  })
+
+  it('rejects a retyped variable', () => {
+    const compiled = copyLayout()
+    compiled.types['t_mapping(t_address,t_uint256)'] = {
+      encoding: 'mapping',
+      key: 't_address',
+      label: 'mapping(address => uint256)',
+      numberOfBytes: '32',
+      value: 't_uint256',
+    }
+    compiled.types['t_uint256'] = { encoding: 'inplace', label: 'uint256', numberOfBytes: '32' }
+    compiled.storage[1].type = 't_mapping(t_address,t_uint256)'
+
+    const issues = compareStorageLayouts(COLLATERAL_LAYOUT, compiled)
+    expect(issues).to.have.length(1)
+    expect(issues[0].severity).to.equal('error')
+    expect(issues[0].variable).to.equal('fees')
+    expect(issues[0].message).to.contain('was retyped')
+  })
+
+  it('rejects a removed struct member', () => {
+    const compiled = copyLayout()
+    ledgerMembers(compiled).pop()
+
+    const issues = compareStorageLayouts(COLLATERAL_LAYOUT, compiled)
+    expect(issues).to.have.length(1)
+    expect(issues[0].severity).to.equal('error')
+    expect(issues[0].variable).to.equal('_products')
+    expect(issues[0].message).to.contain('member shortfall of struct OptimisticLedger was removed')
+  })
+
+  it('warns on a renamed variable', () => {
+    const compiled = copyLayout()
+    compiled.storage[1].label = 'protocolFees'
+
+    const issues = compareStorageLayouts(COLLATERAL_LAYOUT, compiled)
+    expect(issues).to.deep.equal([
+      { severity: 'warning', variable: 'fees', message: 'was renamed to protocolFees at slot 1 offset 0' },
+    ])
+  })
+})
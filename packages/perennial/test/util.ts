@@ -1,5 +1,6 @@
-import { constants, utils, BigNumberish } from 'ethers'
+import { constants, BigNumberish } from 'ethers'
 import { IMultiInvoker } from '../types/generated/contracts/interfaces/IMultiInvoker'
+import { encodeInvocation, PerennialAction } from '../util'
 
 export type InvokerAction =
   | 'NOOP'
@@ -37,69 +38,25 @@ export const buildInvokerActions = ({
   vaultAmount?: BigNumberish
 }): { [action in InvokerAction]: IMultiInvoker.InvocationStruct } => {
   return {
-    NOOP: {
-      action: 0,
-      args: '0x',
-    },
-    DEPOSIT: {
-      action: 1,
-      args: utils.defaultAbiCoder.encode(['address', 'address', 'uint'], [userAddress, productAddress, amount]),
-    },
-    WITHDRAW: {
-      action: 2,
-      args: utils.defaultAbiCoder.encode(['address', 'address', 'uint'], [userAddress, productAddress, amount]),
-    },
-    OPEN_TAKE: {
-      action: 3,
-      args: utils.defaultAbiCoder.encode(['address', 'uint'], [productAddress, position]),
-    },
-    CLOSE_TAKE: {
-      action: 4,
-      args: utils.defaultAbiCoder.encode(['address', 'uint'], [productAddress, position]),
-    },
-    OPEN_MAKE: {
-      action: 5,
-      args: utils.defaultAbiCoder.encode(['address', 'uint'], [productAddress, position]),
-    },
-    CLOSE_MAKE: {
-      action: 6,
-      args: utils.defaultAbiCoder.encode(['address', 'uint'], [productAddress, position]),
-    },
-    CLAIM: {
-      action: 7,
-      args: utils.defaultAbiCoder.encode(['address', 'uint[]'], [productAddress, programs]),
-    },
-    WRAP: {
-      action: 8,
-      args: utils.defaultAbiCoder.encode(['address', 'uint'], [userAddress, amount]),
-    },
-    UNWRAP: {
-      action: 9,
-      args: utils.defaultAbiCoder.encode(['address', 'uint'], [userAddress, amount]),
-    },
-    WRAP_AND_DEPOSIT: {
-      action: 10,
-      args: utils.defaultAbiCoder.encode(['address', 'address', 'uint'], [userAddress, productAddress, amount]),
-    },
-    WITHDRAW_AND_UNWRAP: {
-      action: 11,
-      args: utils.defaultAbiCoder.encode(['address', 'address', 'uint'], [userAddress, productAddress, amount]),
-    },
-    VAULT_DEPOSIT: {
-      action: 12,
-      args: utils.defaultAbiCoder.encode(['address', 'address', 'uint'], [userAddress, vaultAddress, vaultAmount]),
-    },
-    VAULT_REDEEM: {
-      action: 13,
-      args: utils.defaultAbiCoder.encode(['address', 'uint'], [vaultAddress, vaultAmount]),
-    },
-    VAULT_CLAIM: {
-      action: 14,
-      args: utils.defaultAbiCoder.encode(['address', 'address'], [userAddress, vaultAddress]),
-    },
-    VAULT_WRAP_AND_DEPOSIT: {
-      action: 15,
-      args: utils.defaultAbiCoder.encode(['address', 'address', 'uint'], [userAddress, vaultAddress, vaultAmount]),
-    },
+    NOOP: encodeInvocation(PerennialAction.NO_OP),
+    DEPOSIT: encodeInvocation(PerennialAction.DEPOSIT, [userAddress, productAddress, amount]),
+    WITHDRAW: encodeInvocation(PerennialAction.WITHDRAW, [userAddress, productAddress, amount]),
+    OPEN_TAKE: encodeInvocation(PerennialAction.OPEN_TAKE, [productAddress, position]),
+    CLOSE_TAKE: encodeInvocation(PerennialAction.CLOSE_TAKE, [productAddress, position]),
+    OPEN_MAKE: encodeInvocation(PerennialAction.OPEN_MAKE, [productAddress, position]),
+    CLOSE_MAKE: encodeInvocation(PerennialAction.CLOSE_MAKE, [productAddress, position]),
+    CLAIM: encodeInvocation(PerennialAction.CLAIM, [productAddress, programs]),
+    WRAP: encodeInvocation(PerennialAction.WRAP, [userAddress, amount]),
+    UNWRAP: encodeInvocation(PerennialAction.UNWRAP, [userAddress, amount]),
+    WRAP_AND_DEPOSIT: encodeInvocation(PerennialAction.WRAP_AND_DEPOSIT, [userAddress, productAddress, amount]),
+    WITHDRAW_AND_UNWRAP: encodeInvocation(PerennialAction.WITHDRAW_AND_UNWRAP, [userAddress, productAddress, amount]),
+    VAULT_DEPOSIT: encodeInvocation(PerennialAction.VAULT_DEPOSIT, [userAddress, vaultAddress, vaultAmount]),
+    VAULT_REDEEM: encodeInvocation(PerennialAction.VAULT_REDEEM, [vaultAddress, vaultAmount]),
+    VAULT_CLAIM: encodeInvocation(PerennialAction.VAULT_CLAIM, [userAddress, vaultAddress]),
+    VAULT_WRAP_AND_DEPOSIT: encodeInvocation(PerennialAction.VAULT_WRAP_AND_DEPOSIT, [
+      userAddress,
+      vaultAddress,
+      vaultAmount,
+    ]),
   }
 }
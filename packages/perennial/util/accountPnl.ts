@@ -0,0 +1,315 @@
+import { BigNumber, constants } from 'ethers'
+import { ICollateral, IController, IProduct } from '../types/generated'
+import { EventStore, IndexedEvent } from './indexer'
+import {
+  Accumulator,
+  accountValue,
+  accumulateValue,
+  accumulateVersion,
+  Position,
+  PrePosition,
+  readProductSettlementState,
+  readSettlementParameters,
+} from './settlementEngine'
+
+const POSITION_EVENTS = ['MakeOpened', 'MakeClosed', 'TakeOpened', 'TakeClosed']
+
+/**
+ * Collateral changes by source, signed as they move the account's collateral
+ */
+export interface AccountPnlAttribution {
+  deposits: BigNumber
+  withdrawals: BigNumber
+  pricePnl: BigNumber
+  funding: BigNumber
+  // Share of the other side's position fees, credited through the value accumulator
+  positionFeeRebates: BigNumber
+  positionFees: BigNumber
+  liquidationFees: BigNumber
+  // Debits beyond the account's collateral, which are recorded as product shortfall instead
+  shortfall: BigNumber
+}
+
+export interface AccountPnlEntry extends AccountPnlAttribution {
+  blockNumber: number
+  transactionHash: string
+  type: string
+  version?: number
+  // Position amount opened or closed
+  amount: BigNumber
+  // Account position once its pending position settles
+  position: Position
+  // Collateral after the entry
+  collateral: BigNumber
+}
+
+export interface AccountPnlReport {
+  entries: AccountPnlEntry[]
+  totals: AccountPnlAttribution
+  // On-chain collateral as of the store's checkpoint, which `totals` sum to when `matches`
+  collateral: BigNumber
+  matches: boolean
+}
+
+interface AccountPnlContracts {
+  controller: IController
+  collateral: ICollateral
+  product: IProduct
+}
+
+interface AccountState {
+  latestVersion: BigNumber
+  position: Position
+  pre: PrePosition
+}
+
+/**
+ * Rebuilds `account`'s collateral history in `product` from the indexed Collateral and Product events, attributing
+ * each change to its source
+ * @dev Settlements are split by replaying the product settlements they span through the settlement engine, with the
+ *      parameters and state read at the block before each settlement, so an archive node is needed for past blocks.
+ *      Price PnL is the remainder of each settlement, absorbing the rounding of the split, so entries sum exactly.
+ */
+export async function accountPnl(
+  store: EventStore,
+  contracts: AccountPnlContracts,
+  account: string,
+): Promise<AccountPnlReport> {
+  const { collateral, product } = contracts
+  const isAddress = (value: unknown, address: string) =>
+    typeof value === 'string' && value.toLowerCase() === address.toLowerCase()
+  const events = store
+    .events()
+    .filter(e =>
+      isAddress(e.address, collateral.address)
+        ? isAddress(e.args.product, product.address) && isAddress(e.args.user ?? e.args.account, account)
+        : isAddress(e.address, product.address) && isAddress(e.args.account, account),
+    )
+
+  const state: AccountState = { latestVersion: constants.Zero, position: emptyPosition(), pre: emptyPrePosition() }
+  const entries: AccountPnlEntry[] = []
+  let balance = constants.Zero
+  // Collateral settlement awaiting the Product event that explains it
+  let pending: { amount: BigNumber; shortfall: BigNumber } | undefined
+
+  const push = (e: IndexedEvent, type: string, entry: Partial<AccountPnlEntry>) => {
+    const attribution = { ...emptyAttribution(), ...entry }
+    balance = balance.add(sumAttribution(attribution))
+    entries.push({
+      ...attribution,
+      blockNumber: e.blockNumber,
+      transactionHash: e.transactionHash,
+      type,
+      amount: entry.amount ?? constants.Zero,
+      position: next(state.position, state.pre),
+      collateral: balance,
+    })
+  }
+
+  for (const e of events) {
+    const isCollateralEvent = isAddress(e.address, collateral.address)
+    if (isCollateralEvent && e.event === 'AccountSettle') {
+      pending = { amount: BigNumber.from(e.args.amount), shortfall: BigNumber.from(e.args.newShortfall) }
+    } else if (isCollateralEvent && e.event === 'Deposit') {
+      push(e, 'deposit', { deposits: BigNumber.from(e.args.amount) })
+    } else if (isCollateralEvent && e.event === 'Withdrawal') {
+      push(e, 'withdrawal', { withdrawals: BigNumber.from(e.args.amount).mul(-1) })
+    } else if (isCollateralEvent && e.event === 'Liquidation') {
+      push(e, 'liquidation', { liquidationFees: BigNumber.from(e.args.fee).mul(-1) })
+    } else if (e.event === 'AccountSettle') {
+      if (!pending) throw new Error(`AccountSettle in ${e.transactionHash} has no collateral settlement`)
+      const settlement = pending
+      pending = undefined
+
+      const split = await replayAccountSettle(
+        contracts,
+        store,
+        state,
+        BigNumber.from(e.args.preVersion),
+        BigNumber.from(e.args.toVersion),
+      )
+      const value = split.pricePnl.add(split.funding).add(split.positionFeeRebates)
+      if (!value.eq(settlement.amount))
+        throw new Error(`Settlement in ${e.transactionHash} replays to ${value}, expected ${settlement.amount}`)
+      push(e, 'settlement', { ...split, shortfall: settlement.shortfall, version: Number(e.args.toVersion) })
+    } else if (POSITION_EVENTS.includes(e.event)) {
+      const amount = BigNumber.from(e.args.amount)
+      const fee = pending
+      pending = undefined
+      if (amount.isZero() && !fee) continue
+
+      applyPositionEvent(state.pre, e.event, BigNumber.from(e.args.version), amount)
+      push(e, e.event, {
+        positionFees: fee?.amount ?? constants.Zero,
+        shortfall: fee?.shortfall ?? constants.Zero,
+        version: Number(e.args.version),
+        amount,
+      })
+    }
+  }
+
+  const onChainCollateral = await collateral['collateral(address,address)'](account, product.address, {
+    blockTag: store.checkpoint,
+  })
+  const totals = entries.reduce((sum, entry) => addAttributions(sum, entry), emptyAttribution())
+  return { entries, totals, collateral: onChainCollateral, matches: balance.eq(onChainCollateral) }
+}
+
+/**
+ * Mirrors `Product._settleAccount` for `state` up to `toVersion`, settling its pending position at `settleVersion`,
+ * and splits the value it accumulates
+ */
+async function replayAccountSettle(
+  contracts: AccountPnlContracts,
+  store: EventStore,
+  state: AccountState,
+  settleVersion: BigNumber,
+  toVersion: BigNumber,
+): Promise<Pick<AccountPnlAttribution, 'pricePnl' | 'funding' | 'positionFeeRebates'>> {
+  let split = await splitValue(contracts, store, state.position, state.latestVersion, settleVersion)
+
+  if (!isEmptyPre(state.pre)) {
+    state.position = next(state.position, state.pre)
+    state.pre = emptyPrePosition()
+  }
+  if (!settleVersion.eq(toVersion)) {
+    const toSplit = await splitValue(contracts, store, state.position, settleVersion, toVersion)
+    split = {
+      pricePnl: split.pricePnl.add(toSplit.pricePnl),
+      funding: split.funding.add(toSplit.funding),
+      positionFeeRebates: split.positionFeeRebates.add(toSplit.positionFeeRebates),
+    }
+  }
+  state.latestVersion = toVersion
+  return split
+}
+
+/**
+ * Splits the value `position` accumulates from `fromVersion` to `toVersion` by replaying each product settlement
+ * between them, checking the replay against the product's value accumulator
+ */
+async function splitValue(
+  { controller, product }: AccountPnlContracts,
+  store: EventStore,
+  position: Position,
+  fromVersion: BigNumber,
+  toVersion: BigNumber,
+): Promise<Pick<AccountPnlAttribution, 'pricePnl' | 'funding' | 'positionFeeRebates'>> {
+  const zero = { pricePnl: constants.Zero, funding: constants.Zero, positionFeeRebates: constants.Zero }
+  if (isEmpty(position) || fromVersion.eq(toVersion)) return zero
+
+  const settles = store
+    .events({ address: product.address, event: 'Settle' })
+    .filter(e => BigNumber.from(e.args.toVersion).gt(fromVersion) && BigNumber.from(e.args.toVersion).lte(toVersion))
+  const steps = (await Promise.all(settles.map(e => replaySettle(controller, product, e)))).reduce(
+    (acc, settleSteps) => acc.concat(settleSteps),
+    [],
+  )
+
+  const funding = addAccumulators(steps.map(step => step.funding))
+  const positionFee = addAccumulators(steps.map(step => step.positionFee))
+  const replayed = addAccumulators([funding, positionFee, ...steps.map(step => step.pnl)])
+  const [fromValue, toValue] = await Promise.all([
+    product.valueAtVersion(fromVersion),
+    product.valueAtVersion(toVersion),
+  ])
+  if (!replayed.maker.eq(toValue.maker.sub(fromValue.maker)) || !replayed.taker.eq(toValue.taker.sub(fromValue.taker)))
+    throw new Error(`Settlements from version ${fromVersion} to ${toVersion} don't replay to the value accumulator`)
+
+  const value = accountValue(position, fromValue, toValue)
+  const fundingValue = accountValue(position, emptyAccumulator(), funding)
+  const positionFeeValue = accountValue(position, emptyAccumulator(), positionFee)
+  return {
+    pricePnl: value.sub(fundingValue).sub(positionFeeValue),
+    funding: fundingValue,
+    positionFeeRebates: positionFeeValue,
+  }
+}
+
+// Replays the one or two accumulations of a `Settle` from the state and parameters at the block before it
+async function replaySettle(
+  controller: IController,
+  product: IProduct,
+  settle: IndexedEvent,
+): Promise<ReturnType<typeof accumulateValue>[]> {
+  const overrides = { blockTag: settle.blockNumber - 1 }
+  const [state, parameters, settleVersion, toVersion] = await Promise.all([
+    readProductSettlementState(product, overrides),
+    readSettlementParameters(product, controller, overrides),
+    product.atVersion(BigNumber.from(settle.args.preVersion)),
+    product.atVersion(BigNumber.from(settle.args.toVersion)),
+  ])
+
+  const steps = [accumulateValue(parameters, state.position, state.pre, state.latestVersion, settleVersion)]
+  if (!settleVersion.version.eq(toVersion.version)) {
+    const settled = accumulateVersion(state, parameters, settleVersion)
+    steps.push(accumulateValue(parameters, settled.position, settled.pre, settleVersion, toVersion))
+  }
+  return steps
+}
+
+function applyPositionEvent(pre: PrePosition, event: string, version: BigNumber, amount: BigNumber) {
+  pre.oracleVersion = version
+  const side = event.startsWith('Make') ? 'maker' : 'taker'
+  const delta = event.endsWith('Opened') ? pre.openPosition : pre.closePosition
+  delta[side] = delta[side].add(amount)
+}
+
+function next(position: Position, pre: PrePosition): Position {
+  return {
+    maker: position.maker.add(pre.openPosition.maker).sub(pre.closePosition.maker),
+    taker: position.taker.add(pre.openPosition.taker).sub(pre.closePosition.taker),
+  }
+}
+
+function sumAttribution(attribution: AccountPnlAttribution): BigNumber {
+  return attributionKeys().reduce((sum, key) => sum.add(attribution[key]), constants.Zero)
+}
+
+function addAttributions(a: AccountPnlAttribution, b: AccountPnlAttribution): AccountPnlAttribution {
+  return attributionKeys().reduce((sum, key) => ({ ...sum, [key]: a[key].add(b[key]) }), emptyAttribution())
+}
+
+function addAccumulators(accumulators: Accumulator[]): Accumulator {
+  return accumulators.reduce(
+    (sum, accumulator) => ({ maker: sum.maker.add(accumulator.maker), taker: sum.taker.add(accumulator.taker) }),
+    emptyAccumulator(),
+  )
+}
+
+function attributionKeys(): (keyof AccountPnlAttribution)[] {
+  return Object.keys(emptyAttribution()) as (keyof AccountPnlAttribution)[]
+}
+
+function emptyAttribution(): AccountPnlAttribution {
+  return {
+    deposits: constants.Zero,
+    withdrawals: constants.Zero,
+    pricePnl: constants.Zero,
+    funding: constants.Zero,
+    positionFeeRebates: constants.Zero,
+    positionFees: constants.Zero,
+    liquidationFees: constants.Zero,
+    shortfall: constants.Zero,
+  }
+}
+
+function isEmpty(position: Position): boolean {
+  return position.maker.isZero() && position.taker.isZero()
+}
+
+function isEmptyPre(pre: PrePosition): boolean {
+  return isEmpty(pre.openPosition) && isEmpty(pre.closePosition)
+}
+
+function emptyPosition(): Position {
+  return { maker: constants.Zero, taker: constants.Zero }
+}
+
+function emptyAccumulator(): Accumulator {
+  return emptyPosition()
+}
+
+function emptyPrePosition(): PrePosition {
+  return { oracleVersion: constants.Zero, openPosition: emptyPosition(), closePosition: emptyPosition() }
+}
@@ -0,0 +1,11 @@
+export type CsvRow = { [column: string]: string | number | boolean }
+
+export function toCsv(rows: CsvRow[]): string {
+  if (rows.length === 0) return ''
+  const columns = Object.keys(rows[0])
+  const escape = (value: string | number | boolean) => {
+    const str = String(value)
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+  }
+  return [columns.join(','), ...rows.map(row => columns.map(column => escape(row[column])).join(','))].join('\n') + '\n'
+}
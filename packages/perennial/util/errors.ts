@@ -0,0 +1,43 @@
+import { ActionType } from 'hardhat/types'
+import * as typechain from '../types/generated'
+import { DecodedError, ErrorRegistry } from '../../common/testutil/errors'
+
+// BalancedVault lives in the vaults package, so its errors are declared here by signature
+const BALANCED_VAULT_ERRORS = [
+  'error BalancedVaultDepositLimitExceeded()',
+  'error BalancedVaultRedemptionLimitExceeded()',
+]
+
+/**
+ * Every custom error of the protocol, the oracle contracts compiled with it, and the vaults
+ */
+export const errorRegistry = ErrorRegistry.fromTypechain([typechain], BALANCED_VAULT_ERRORS)
+
+/**
+ * Decodes revert data, or the revert data carried by a thrown error, into a readable error
+ */
+export function decodeError(dataOrError: unknown): DecodedError | undefined {
+  if (typeof dataOrError === 'string') return errorRegistry.decode(dataOrError)
+  return errorRegistry.decodeFrom(dataOrError)
+}
+
+/**
+ * Describes a thrown error on one line, for task and keeper logs
+ */
+export function describeError(error: unknown): string {
+  return errorRegistry.describe(error)
+}
+
+/**
+ * Wraps a task action so protocol reverts surface as their decoded error instead of raw revert data
+ */
+export function describingErrors<T>(action: ActionType<T>): ActionType<T> {
+  return async (args, HRE, runSuper) => {
+    try {
+      return await action(args, HRE, runSuper)
+    } catch (e) {
+      if (decodeError(e) === undefined) throw e
+      throw describeError(e)
+    }
+  }
+}
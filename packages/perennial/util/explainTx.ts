@@ -0,0 +1,133 @@
+import { BigNumber, providers, utils } from 'ethers'
+import { ICollateral__factory, IIncentivizer__factory, IPerennialLens, IProduct__factory } from '../types/generated'
+import { UFixed6Math } from '../../common/testutil/fixed'
+import { DecodedInvocation } from './multiInvoker'
+
+// BalancedVault lives in the vaults package, so its events are declared here by signature
+const BALANCED_VAULT_EVENTS = [
+  'event Deposit(address indexed sender, address indexed account, uint256 version, uint256 assets)',
+  'event Redemption(address indexed sender, address indexed account, uint256 version, uint256 shares)',
+  'event Claim(address indexed sender, address indexed account, uint256 assets)',
+  'event PositionUpdated(address product, uint256 targetPosition)',
+  'event CollateralUpdated(address product, uint256 targetCollateral)',
+]
+
+// Actions that pull USDC into the MultiInvoker, rounding the USDC amount up, and those that pay USDC out
+const USDC_IN_ACTIONS = ['WRAP', 'WRAP_AND_DEPOSIT', 'VAULT_WRAP_AND_DEPOSIT']
+const USDC_OUT_ACTIONS = ['UNWRAP', 'WITHDRAW_AND_UNWRAP']
+const POSITION_ACTIONS = ['OPEN_TAKE', 'CLOSE_TAKE', 'OPEN_MAKE', 'CLOSE_MAKE']
+
+// Labels keyed by lowercase address
+export type AddressLabels = { [address: string]: string }
+
+export interface ExplainedEvent {
+  logIndex: number
+  address: string
+  contract: 'Collateral' | 'Product' | 'Incentivizer' | 'BalancedVault'
+  event: string
+  args: { [name: string]: unknown }
+}
+
+/**
+ * Labels `addresses` with their deployment name, or with their `symbol` through the lens for products and vaults.
+ * Addresses that can't be resolved are left out.
+ * @param deployments Deployment addresses by deployment name
+ */
+export async function labelAddresses(
+  lens: IPerennialLens,
+  addresses: string[],
+  deployments: { [name: string]: string },
+): Promise<AddressLabels> {
+  const labels: AddressLabels = {}
+  Object.entries(deployments).forEach(([name, address]) => (labels[address.toLowerCase()] = name))
+
+  const unlabeled = Array.from(new Set(addresses.map(address => address.toLowerCase()))).filter(
+    address => !labels[address],
+  )
+  await Promise.all(
+    unlabeled.map(async address => {
+      try {
+        labels[address] = await lens.symbol(address)
+      } catch {
+        // not a product or vault
+      }
+    }),
+  )
+  return labels
+}
+
+/**
+ * Formats a decoded MultiInvoker step with labeled addresses and token denominated amounts
+ * @dev Amounts are UFixed18 DSU, or USDC for the actions that wrap and unwrap. Position sizes are unitless.
+ */
+export function explainInvocation({ action, args }: DecodedInvocation, labels: AddressLabels): string {
+  const formatted = Object.entries(args).map(([name, value]) => {
+    if (Array.isArray(value)) return `${name}=[${value.map(v => v.toString()).join(', ')}]`
+    if (typeof value === 'string') return `${name}=${formatAddress(value, labels)}`
+    if (POSITION_ACTIONS.includes(action)) return `${name}=${utils.formatEther(value)}`
+    if (action === 'VAULT_REDEEM') return `${name}=${utils.formatEther(value)} shares`
+    if (USDC_IN_ACTIONS.includes(action)) return `${name}=${formatUSDC(UFixed6Math.fromUFixed18(value, true))}`
+    if (USDC_OUT_ACTIONS.includes(action)) return `${name}=${formatUSDC(UFixed6Math.fromUFixed18(value))}`
+    return `${name}=${utils.formatEther(value)} DSU`
+  })
+  return [action, ...formatted].join(' ')
+}
+
+/**
+ * Decodes the receipt's Collateral, Product, Incentivizer and BalancedVault events, in log order
+ * @dev Logs are matched by signature, so an event is attributed to the first contract whose ABI declares it.
+ *      Logs no protocol ABI declares, such as token transfers, are skipped.
+ */
+export function decodeReceiptEvents(receipt: providers.TransactionReceipt): ExplainedEvent[] {
+  const interfaces: [ExplainedEvent['contract'], utils.Interface][] = [
+    ['Collateral', ICollateral__factory.createInterface()],
+    ['Product', IProduct__factory.createInterface()],
+    ['Incentivizer', IIncentivizer__factory.createInterface()],
+    ['BalancedVault', new utils.Interface(BALANCED_VAULT_EVENTS)],
+  ]
+
+  const events: ExplainedEvent[] = []
+  for (const log of receipt.logs) {
+    for (const [contract, contractInterface] of interfaces) {
+      let parsed: utils.LogDescription
+      try {
+        parsed = contractInterface.parseLog(log)
+      } catch {
+        continue
+      }
+      const args = parsed.eventFragment.inputs.reduce(
+        (acc: ExplainedEvent['args'], input, i) => ({ ...acc, [input.name || i]: parsed.args[i] }),
+        {},
+      )
+      events.push({ logIndex: log.logIndex, address: log.address, contract, event: parsed.name, args })
+      break
+    }
+  }
+  return events
+}
+
+/**
+ * Formats a receipt event on one line with labeled addresses. Amounts are printed as 18 decimal values.
+ */
+export function explainEvent({ address, contract, event, args }: ExplainedEvent, labels: AddressLabels): string {
+  const formatted = Object.entries(args).map(([name, value]) => {
+    if (typeof value === 'string' && utils.isAddress(value)) return `${name}=${formatAddress(value, labels)}`
+    if (BigNumber.isBigNumber(value) && !isCounter(name)) return `${name}=${utils.formatEther(value)}`
+    return `${name}=${String(value)}`
+  })
+  return `${contract}(${formatAddress(address, labels)}).${event} ${formatted.join(' ')}`
+}
+
+function formatAddress(address: string, labels: AddressLabels): string {
+  const label = labels[address.toLowerCase()]
+  return label ? `${label} (${address})` : address
+}
+
+function formatUSDC(amount: BigNumber): string {
+  return `${UFixed6Math.format(amount)} USDC`
+}
+
+// Version and program fields are counters rather than UFixed18 values
+function isCounter(name: string): boolean {
+  return /version|programId/i.test(name)
+}
@@ -0,0 +1,122 @@
+import { BigNumber } from 'ethers'
+import { IPerennialLens, IProduct__factory } from '../types/generated'
+import { Fixed18Math, UFixed18Math } from '../../common/testutil/fixed'
+import { EventStore } from './indexer'
+import { Accumulator, computeUtilizationCurve, fundingRate, Position, UtilizationCurve } from './settlementEngine'
+
+const HOUR = 60 * 60
+
+/**
+ * Inclusive bounds on the versions to export, by version number and/or by version timestamp
+ */
+export interface FundingHistoryRange {
+  fromVersion?: number
+  toVersion?: number
+  fromTimestamp?: number
+  toTimestamp?: number
+}
+
+export interface FundingHistoryPoint {
+  version: number
+  timestamp: number
+  price: BigNumber
+  // Global position settled at `version`, which funding accrues on until the next version
+  position: Position
+  // Open interest notional, `position` at `price`
+  makerNotional: BigNumber
+  takerNotional: BigNumber
+  // Taker over maker position as `Product.rate` computes it, one with no position and max with no makers
+  utilization: BigNumber
+  annualizedRate: BigNumber
+  hourlyRate: BigNumber
+  // Change in the value and share accumulators since the previous settled version, per unit of position
+  valueDelta: Accumulator
+  shareDelta: Accumulator
+}
+
+/**
+ * Walks `product`'s settled versions backwards from the latest, or from the top of `range`, reading the global
+ * position and accumulators at each version in batches of `batchSize` through `lens`'s provider
+ * @dev The product only stamps its accumulators and position at the versions it settles, which are read from the
+ *      `Settle` events in `store`, so `store` must be indexed from the product's creation. Rates are computed with
+ *      the product's current utilization curve, so they don't reflect past curve updates. Connect `lens` to a
+ *      multicall provider to batch the reads of each version.
+ */
+export async function fundingHistory(
+  lens: IPerennialLens,
+  store: EventStore,
+  product: string,
+  range: FundingHistoryRange = {},
+  batchSize = 100,
+): Promise<FundingHistoryPoint[]> {
+  const productContract = IProduct__factory.connect(product, lens.provider)
+  const utilizationCurve = await productContract.utilizationCurve()
+  const settledVersions = store.settledVersions(product)
+  const inRange = settledVersions.filter(
+    version =>
+      (range.fromVersion === undefined || version >= range.fromVersion) &&
+      (range.toVersion === undefined || version <= range.toVersion),
+  )
+
+  const points: FundingHistoryPoint[] = []
+  for (let end = inRange.length; end > 0; end -= batchSize) {
+    const batchVersions = inRange.slice(Math.max(end - batchSize, 0), end)
+    // Reads the settled version before the batch for the accumulator deltas of its first version. Accumulators are
+    // unset, so zero, at version 0 before the first settlement.
+    const previous = settledVersions[settledVersions.indexOf(batchVersions[0]) - 1] ?? 0
+    const versions = [previous, ...batchVersions]
+    const [oracleVersions, positions, values, shares] = await Promise.all([
+      lens.callStatic.atVersions(product, batchVersions),
+      Promise.all(batchVersions.map(version => productContract.positionAtVersion(version))),
+      Promise.all(versions.map(version => productContract.valueAtVersion(version))),
+      Promise.all(versions.map(version => productContract.shareAtVersion(version))),
+    ])
+
+    const batch = oracleVersions.map((oracleVersion, i) =>
+      toFundingHistoryPoint(
+        utilizationCurve,
+        batchVersions[i],
+        oracleVersion,
+        positions[i],
+        { from: values[i], to: values[i + 1] },
+        { from: shares[i], to: shares[i + 1] },
+      ),
+    )
+    points.push(
+      ...batch
+        .filter(({ timestamp }) => range.toTimestamp === undefined || timestamp <= range.toTimestamp)
+        .filter(({ timestamp }) => range.fromTimestamp === undefined || timestamp >= range.fromTimestamp)
+        .reverse(),
+    )
+
+    // Versions are stamped in time order, so nothing earlier can be in range
+    if (range.fromTimestamp !== undefined && batch[0].timestamp < range.fromTimestamp) break
+  }
+  return points.reverse()
+}
+
+function toFundingHistoryPoint(
+  utilizationCurve: UtilizationCurve,
+  version: number,
+  oracleVersion: { timestamp: BigNumber; price: BigNumber },
+  position: Position,
+  value: { from: Accumulator; to: Accumulator },
+  share: { from: Accumulator; to: Accumulator },
+): FundingHistoryPoint {
+  const { timestamp, price } = oracleVersion
+  const utilization = UFixed18Math.unsafeDiv(position.taker, position.maker)
+
+  return {
+    version,
+    timestamp: timestamp.toNumber(),
+    price,
+    position: { maker: position.maker, taker: position.taker },
+    makerNotional: Fixed18Math.abs(Fixed18Math.mul(position.maker, price)),
+    takerNotional: Fixed18Math.abs(Fixed18Math.mul(position.taker, price)),
+    utilization,
+    annualizedRate: computeUtilizationCurve(utilizationCurve, utilization),
+    hourlyRate: Fixed18Math.mul(fundingRate(utilizationCurve, position), Fixed18Math.from(HOUR)),
+    valueDelta: { maker: value.to.maker.sub(value.from.maker), taker: value.to.taker.sub(value.from.taker) },
+    shareDelta: { maker: share.to.maker.sub(share.from.maker), taker: share.to.taker.sub(share.from.taker) },
+  }
+}
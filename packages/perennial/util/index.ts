@@ -0,0 +1,19 @@
+export * from './accountPnl'
+export * from './chunk'
+export * from './csv'
+export * from './errors'
+export * from './explainTx'
+export * from './fundingHistory'
+export * from './indexer'
+export * from './liquidationPrice'
+export * from './liquidations'
+export * from './multiInvoker'
+export * from './nonceManager'
+export * from './portfolio'
+export * from './settlement'
+export * from './settlementEngine'
+export * from './snapshots'
+export * from './solvency'
+export * from './timelock'
+export * from './tradePreview'
+export * from './upgrades'
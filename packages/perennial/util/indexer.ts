@@ -0,0 +1,255 @@
+import { existsSync } from 'fs'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+import { BaseContract, BigNumber, Event, utils } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { ICollateral, IController, IIncentivizer, IProduct } from '../types/generated'
+
+const PRODUCT_CREATED_TOPIC_0 = [
+  '0x09d535073bc2dc21c8fd680a2141218a65fb0acc46e88b9e5d96f114b734b004', // previous ProductCreated signature
+]
+const DEFAULT_CHUNK_SIZE = 2000
+const DEFAULT_CONFIRMATIONS = 0
+
+export type IndexedValue = string | boolean | IndexedValue[] | { [key: string]: IndexedValue }
+
+export interface IndexedEvent {
+  address: string
+  event: string
+  blockNumber: number
+  transactionHash: string
+  logIndex: number
+  args: { [key: string]: IndexedValue }
+}
+
+interface EventStoreData {
+  startBlock: number
+  checkpoint: number
+  // Hash of the checkpoint block, to detect a restarted or reorged chain
+  checkpointHash?: string
+  events: IndexedEvent[]
+}
+
+/**
+ * Append-only store of indexed protocol events, optionally persisted to a JSON file
+ * @dev `checkpoint` is the last block that has been fully indexed
+ */
+export class EventStore {
+  private readonly path?: string
+  private data: EventStoreData
+
+  constructor(data: EventStoreData, path?: string) {
+    this.data = data
+    this.path = path
+  }
+
+  public static async load(path: string | undefined, startBlock = 0): Promise<EventStore> {
+    if (path && existsSync(path)) return new EventStore(JSON.parse(await readFile(path, 'utf-8')), path)
+    return new EventStore({ startBlock, checkpoint: startBlock - 1, events: [] }, path)
+  }
+
+  public get checkpoint(): number {
+    return this.data.checkpoint
+  }
+
+  public get checkpointHash(): string | undefined {
+    return this.data.checkpointHash
+  }
+
+  public async append(events: IndexedEvent[], checkpoint: number, checkpointHash?: string): Promise<void> {
+    this.data.events.push(...events)
+    this.data.checkpoint = checkpoint
+    this.data.checkpointHash = checkpointHash
+    await this.save()
+  }
+
+  // Drops every event, so the store is indexed again from its start block
+  public async reset(): Promise<void> {
+    this.data = { startBlock: this.data.startBlock, checkpoint: this.data.startBlock - 1, events: [] }
+    await this.save()
+  }
+
+  private async save(): Promise<void> {
+    if (!this.path) return
+
+    await mkdir(dirname(this.path), { recursive: true })
+    await writeFile(this.path, JSON.stringify(this.data))
+  }
+
+  public events({ address, event }: { address?: string; event?: string } = {}): IndexedEvent[] {
+    return this.data.events.filter(
+      e =>
+        (address === undefined || e.address.toLowerCase() === address.toLowerCase()) &&
+        (event === undefined || e.event === event),
+    )
+  }
+
+  public products(): string[] {
+    return this.events({ event: 'ProductCreated' }).map(e => e.args.product as string)
+  }
+
+  public accountProducts(account: string): string[] {
+    const deposits = this.events({ event: 'Deposit' }).filter(
+      e => (e.args.user as string).toLowerCase() === account.toLowerCase(),
+    )
+    return Array.from(new Set(deposits.map(e => e.args.product as string)))
+  }
+
+  public users(product: string): string[] {
+    const deposits = this.events({ event: 'Deposit' }).filter(
+      e => (e.args.product as string).toLowerCase() === product.toLowerCase(),
+    )
+    return Array.from(new Set(deposits.map(e => (e.args.user as string).toLowerCase())))
+  }
+
+  // Versions `product` stamped its accumulators and position at, in ascending order
+  public settledVersions(product: string): number[] {
+    const versions = this.events({ address: product, event: 'Settle' })
+      .reduce((acc: IndexedValue[], e) => acc.concat([e.args.preVersion, e.args.toVersion]), [])
+      .map(version => BigNumber.from(version).toNumber())
+    return Array.from(new Set(versions)).sort((a, b) => a - b)
+  }
+}
+
+export interface IndexerContracts {
+  controller: IController
+  collateral: ICollateral
+  incentivizer: IIncentivizer
+  productAt: (address: string) => Promise<IProduct>
+}
+
+/**
+ * Incrementally indexes Controller, Collateral, Incentivizer and Product events into an `EventStore`
+ * @dev Blocks are queried in ranges of at most `chunkSize`, and only up to `confirmations` blocks behind
+ *      the chain head. The store is checkpointed after every range so an interrupted sync can resume, and is
+ *      re-indexed from scratch if the checkpoint block's hash changed, as it does when a local chain restarts.
+ */
+export class EventIndexer {
+  private readonly store: EventStore
+  private readonly contracts: IndexerContracts
+  private readonly chunkSize: number
+  private readonly confirmations: number
+
+  constructor(
+    store: EventStore,
+    contracts: IndexerContracts,
+    { chunkSize = DEFAULT_CHUNK_SIZE, confirmations = DEFAULT_CONFIRMATIONS } = {},
+  ) {
+    this.store = store
+    this.contracts = contracts
+    this.chunkSize = chunkSize
+    this.confirmations = confirmations
+  }
+
+  public async sync(): Promise<number> {
+    const { controller, collateral, incentivizer, productAt } = this.contracts
+    const { provider } = controller
+    const head = (await provider.getBlockNumber()) - this.confirmations
+    if (this.store.checkpointHash !== undefined) {
+      const checkpointBlock = await provider.getBlock(this.store.checkpoint)
+      if (checkpointBlock?.hash !== this.store.checkpointHash) await this.store.reset()
+    }
+
+    let indexed = 0
+    for (let from = this.store.checkpoint + 1; from <= head; from += this.chunkSize) {
+      const to = Math.min(from + this.chunkSize - 1, head)
+
+      const created = await this.productCreatedEvents(from, to)
+      const products = [...this.store.products(), ...created.map(e => e.args.product as string)]
+      const events = [
+        ...created,
+        ...(await queryAll(collateral, from, to)),
+        ...(await queryAll(incentivizer, from, to)),
+        ...(await Promise.all(products.map(async product => queryAll(await productAt(product), from, to)))).reduce(
+          (acc, productEvents) => acc.concat(productEvents),
+          [],
+        ),
+      ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+      await this.store.append(events, to, (await provider.getBlock(to)).hash)
+      indexed += events.length
+    }
+    return indexed
+  }
+
+  private async productCreatedEvents(from: number, to: number): Promise<IndexedEvent[]> {
+    const { controller } = this.contracts
+    const topic0s = [...PRODUCT_CREATED_TOPIC_0, controller.interface.getEventTopic('ProductCreated')]
+    const events = await controller.queryFilter({ address: controller.address, topics: [topic0s] }, from, to)
+
+    // Only the product address is kept, as it is the only field shared by every ProductCreated signature
+    return events.map(e => ({
+      ...eventMetadata(e),
+      event: 'ProductCreated',
+      args: { product: utils.defaultAbiCoder.decode(['address'], e.topics[1])[0] },
+    }))
+  }
+}
+
+/**
+ * Opens the event store for the current chain and Controller deployment and syncs it to the latest confirmed block
+ */
+export async function syncEventStore(
+  HRE: HardhatRuntimeEnvironment,
+  options: { chunkSize?: number; confirmations?: number } = {},
+): Promise<EventStore> {
+  const {
+    ethers,
+    config,
+    deployments: { get },
+  } = HRE
+  const controllerDeployment = await get('Controller_Proxy')
+  const { chainId } = await ethers.provider.getNetwork()
+  // Forks of different chains share a network name, so stores are keyed by chain and deployment instead
+  const store = await EventStore.load(
+    `${config.paths.cache}/events/${chainId}-${controllerDeployment.address.toLowerCase()}.json`,
+    controllerDeployment.receipt?.blockNumber,
+  )
+  const indexer = new EventIndexer(
+    store,
+    {
+      controller: await ethers.getContractAt('IController', controllerDeployment.address),
+      collateral: await ethers.getContractAt('ICollateral', (await get('Collateral_Proxy')).address),
+      incentivizer: await ethers.getContractAt('IIncentivizer', (await get('Incentivizer_Proxy')).address),
+      productAt: address => ethers.getContractAt('IProduct', address),
+    },
+    options,
+  )
+  await indexer.sync()
+  return store
+}
+
+async function queryAll(contract: BaseContract, from: number, to: number): Promise<IndexedEvent[]> {
+  const indexed: IndexedEvent[] = []
+  for (const e of await contract.queryFilter('*', from, to)) {
+    if (e.event === undefined || e.eventFragment === undefined) continue // not emitted by this contract's ABI
+
+    const args = e.eventFragment.inputs.reduce(
+      (acc, input, i) => ({ ...acc, [input.name || i]: serialize(input, e.args?.[i]) }),
+      {},
+    )
+    indexed.push({ ...eventMetadata(e), event: e.event, args })
+  }
+  return indexed
+}
+
+function eventMetadata(e: Event): Omit<IndexedEvent, 'event' | 'args'> {
+  return {
+    address: e.address,
+    blockNumber: e.blockNumber,
+    transactionHash: e.transactionHash,
+    logIndex: e.logIndex,
+  }
+}
+
+function serialize(param: utils.ParamType, value: unknown): IndexedValue {
+  if (param.baseType === 'tuple' && Array.isArray(value))
+    return param.components.reduce(
+      (acc, component, i) => ({ ...acc, [component.name || i]: serialize(component, value[i]) }),
+      {},
+    )
+  if (param.baseType === 'array' && Array.isArray(value)) return value.map(v => serialize(param.arrayChildren, v))
+  if (BigNumber.isBigNumber(value)) return value.toString()
+  if (typeof value === 'string' || typeof value === 'boolean') return value
+  return String(value)
+}
@@ -0,0 +1,189 @@
+import { BigNumber, BigNumberish, BytesLike, constants, providers, Signer, utils } from 'ethers'
+import { IContractPayoffProvider__factory, IOracleProvider__factory, IPerennialLens } from '../types/generated'
+import { Fixed18Math, UFixed18Math } from '../../common/testutil/fixed'
+import { nextPosition, Position, PrePosition, socializationFactor } from './settlementEngine'
+
+const PAYOFF_TYPE_CONTRACT = 1
+const PAYOFF_DIRECTION_SHORT = 1
+// Liquidation prices above the current price are searched up to this multiple of it
+const MAX_PRICE_MULTIPLE = 1024
+
+// Oracle price to product price, see `PayoffDefinitionLib.transform`
+export type PayoffFunction = (price: BigNumber) => Promise<BigNumber>
+
+export interface PayoffDefinition {
+  payoffType: BigNumberish
+  payoffDirection: BigNumberish
+  data: BytesLike
+}
+
+/**
+ * Inputs of a liquidation estimate, all as of the account's latest settlement
+ * @dev `price` is the oracle price before the payoff is applied. `globalPosition` is the product's position once
+ *      its pending position settles, which determines how much of a maker's position is exposed to price moves.
+ */
+export interface LiquidationInputs {
+  snapshot: { collateral: BigNumber; maintenance: BigNumber; pre: PrePosition; position: Position }
+  maintenance: BigNumber
+  price: BigNumber
+  globalPosition: Position
+  payoff: PayoffFunction
+  minCollateral?: BigNumber
+}
+
+export interface LiquidationEstimate {
+  liquidatable: boolean
+  // Nearest oracle price at which the account becomes liquidatable, if any
+  liquidationPrice?: BigNumber
+  // Signed distance from the current price to `liquidationPrice`, as a fraction of the current price
+  distance?: BigNumber
+  liquidationPriceBelow?: BigNumber
+  liquidationPriceAbove?: BigNumber
+  // Collateral that can be withdrawn without breaking the maintenance or minimum collateral requirements
+  maxWithdrawal: BigNumber
+}
+
+/**
+ * Builds the payoff transform of `definition`, calling the payoff provider for contract payoffs
+ */
+export function payoffFunction(definition: PayoffDefinition, provider: providers.Provider | Signer): PayoffFunction {
+  const short = BigNumber.from(definition.payoffDirection).eq(PAYOFF_DIRECTION_SHORT)
+  const direction = (price: BigNumber) => (short ? Fixed18Math.mul(price, Fixed18Math.NEG_ONE) : price)
+  if (!BigNumber.from(definition.payoffType).eq(PAYOFF_TYPE_CONTRACT)) return async price => direction(price)
+
+  // The provider address is the last 20 bytes of the payoff data
+  const payoffProvider = IContractPayoffProvider__factory.connect(utils.hexDataSlice(definition.data, 10), provider)
+  return async price => direction(await payoffProvider.payoff(price))
+}
+
+/**
+ * Estimates the oracle prices at which the account's maintenance exceeds its collateral
+ * @dev The account's pending position is assumed to settle at the current price before the price is reached.
+ *      Collateral is projected with the position's P&L only, ignoring funding and fees accrued before the price
+ *      is reached. Liquidation prices are searched for on either side of the current price, assuming the
+ *      payoff is monotonic on each side.
+ */
+export async function estimateLiquidation(inputs: LiquidationInputs): Promise<LiquidationEstimate> {
+  const { snapshot, price } = inputs
+  const position = nextPosition(snapshot.position, snapshot.pre)
+  const currentPayoff = await inputs.payoff(price)
+  const maxWithdrawal = maxSafeWithdrawal(inputs, position, currentPayoff)
+  if (position.maker.isZero() && position.taker.isZero()) return { liquidatable: false, maxWithdrawal }
+
+  const isLiquidatable = async (oraclePrice: BigNumber) =>
+    liquidatableAt(inputs, position, currentPayoff, await inputs.payoff(oraclePrice))
+  if (await isLiquidatable(price))
+    return { liquidatable: true, liquidationPrice: price, distance: constants.Zero, maxWithdrawal }
+  // The search brackets the current price from zero and by doubling it, so there is nothing to search from
+  if (price.lte(0)) return { liquidatable: false, maxWithdrawal }
+
+  // Highest liquidatable price below, then lowest liquidatable price above the current price
+  let liquidationPriceBelow: BigNumber | undefined
+  if (await isLiquidatable(constants.Zero)) {
+    liquidationPriceBelow = await bisect(constants.Zero, price, isLiquidatable, true)
+  }
+  let liquidationPriceAbove: BigNumber | undefined
+  for (let upper = price.mul(2); upper.lte(price.mul(MAX_PRICE_MULTIPLE)); upper = upper.mul(2)) {
+    if (!(await isLiquidatable(upper))) continue
+    liquidationPriceAbove = await bisect(price, upper, isLiquidatable, false)
+    break
+  }
+
+  const liquidationPrice = nearest(price, liquidationPriceBelow, liquidationPriceAbove)
+  return {
+    liquidatable: false,
+    liquidationPrice,
+    distance: liquidationPrice && Fixed18Math.div(liquidationPrice.sub(price), price),
+    liquidationPriceBelow,
+    liquidationPriceAbove,
+    maxWithdrawal,
+  }
+}
+
+/**
+ * Reads the inputs for `account`'s liquidation estimate in `product` through the lens and runs it
+ * @dev The returned `price` is the current oracle price the estimate starts from
+ */
+export async function estimateAccountLiquidation(
+  lens: IPerennialLens,
+  product: string,
+  account: string,
+): Promise<LiquidationEstimate & { price: BigNumber }> {
+  const [snapshot, productSnapshot, protocolSnapshot] = await Promise.all([
+    lens.callStatic['snapshot(address,address)'](account, product),
+    lens.callStatic['snapshot(address)'](product),
+    lens.callStatic['snapshot()'](),
+  ])
+  const { productInfo } = productSnapshot
+  const { price } = await IOracleProvider__factory.connect(productInfo.oracle, lens.provider).currentVersion()
+
+  const estimate = await estimateLiquidation({
+    snapshot,
+    maintenance: productInfo.maintenance,
+    price,
+    globalPosition: nextPosition(productSnapshot.position, productSnapshot.pre),
+    payoff: payoffFunction(productInfo.payoffDefinition, lens.provider),
+    minCollateral: protocolSnapshot.minCollateral,
+  })
+  return { ...estimate, price }
+}
+
+// Mirrors `Collateral.liquidatable` once `position` is settled at `payoff`
+function liquidatableAt(
+  inputs: LiquidationInputs,
+  position: Position,
+  currentPayoff: BigNumber,
+  payoff: BigNumber,
+): boolean {
+  const { snapshot, maintenance, globalPosition } = inputs
+  const { maker, taker } = position
+
+  // Makers take the other side of the socialized taker position, spread across all makers
+  const exposure = taker.isZero()
+    ? Fixed18Math.mul(
+        maker.mul(-1),
+        UFixed18Math.min(UFixed18Math.ONE, UFixed18Math.unsafeDiv(globalPosition.taker, globalPosition.maker)),
+      )
+    : UFixed18Math.mul(taker, socializationFactor(globalPosition))
+  const collateral = snapshot.collateral.add(Fixed18Math.mul(exposure, payoff.sub(currentPayoff)))
+
+  return maintenanceAt(position, payoff, maintenance).gt(collateral)
+}
+
+// Mirrors `AccountPosition._maintenance` at the product price `payoff`
+function maintenanceAt(position: Position, payoff: BigNumber, maintenance: BigNumber): BigNumber {
+  const notional = Fixed18Math.abs(Fixed18Math.mul(UFixed18Math.max(position.maker, position.taker), payoff))
+  return UFixed18Math.mul(notional, maintenance)
+}
+
+// Narrows [safe, liquidatable] (or [liquidatable, safe] when `liquidatableLow`) down to the boundary liquidatable price
+async function bisect(
+  low: BigNumber,
+  high: BigNumber,
+  isLiquidatable: (price: BigNumber) => Promise<boolean>,
+  liquidatableLow: boolean,
+): Promise<BigNumber> {
+  while (high.sub(low).gt(1)) {
+    const mid = low.add(high).div(2)
+    if ((await isLiquidatable(mid)) === liquidatableLow) low = mid
+    else high = mid
+  }
+  return liquidatableLow ? low : high
+}
+
+function nearest(price: BigNumber, below?: BigNumber, above?: BigNumber): BigNumber | undefined {
+  if (below === undefined) return above
+  if (above === undefined) return below
+  return price.sub(below).lte(above.sub(price)) ? below : above
+}
+
+// Mirrors the `maintenanceInvariant` and `collateralInvariant` checks of `Collateral.withdrawFrom`, where the next
+// maintenance is that of the account's `position` once its pending position settles
+function maxSafeWithdrawal(inputs: LiquidationInputs, position: Position, currentPayoff: BigNumber): BigNumber {
+  const { snapshot } = inputs
+  const maintenance = UFixed18Math.max(snapshot.maintenance, maintenanceAt(position, currentPayoff, inputs.maintenance))
+  if (maintenance.gte(snapshot.collateral)) return constants.Zero
+  if (maintenance.isZero()) return snapshot.collateral
+  const required = UFixed18Math.max(maintenance, inputs.minCollateral ?? constants.Zero)
+  return snapshot.collateral.gt(required) ? snapshot.collateral.sub(required) : constants.Zero
+}
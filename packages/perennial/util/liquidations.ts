@@ -0,0 +1,58 @@
+import { BigNumber } from 'ethers'
+import { ICollateral, IPerennialLens } from '../types/generated'
+import { chunk } from './chunk'
+import { decodeError } from './errors'
+
+const LIQUIDATABLE_BATCH_SIZE = 50
+// Reverts of accounts that are no longer liquidatable, or that another keeper is already liquidating
+const SKIPPED_ERRORS = ['CollateralCantLiquidate', 'CollateralAccountLiquidatingError']
+
+export interface LiquidationResult {
+  account: string
+  product: string
+  hash?: string
+  fee?: BigNumber
+}
+
+export async function findLiquidatable(lens: IPerennialLens, product: string, users: string[]): Promise<string[]> {
+  const liquidatable: string[] = []
+  for (const userGroup of chunk(users, LIQUIDATABLE_BATCH_SIZE)) {
+    const results = await Promise.all(userGroup.map(account => lens.callStatic.liquidatable(account, product)))
+    liquidatable.push(...userGroup.filter((_, i) => results[i]))
+  }
+  return liquidatable
+}
+
+/**
+ * Liquidates up to `maxLiquidations` of `accounts` in `product`, one transaction at a time
+ * @dev Accounts that can no longer be liquidated (e.g. another keeper got there first) are skipped, any other
+ *      failure of the pre-check is thrown. In `dryRun` mode the liquidation is only simulated and no transaction is sent.
+ */
+export async function liquidateAccounts(
+  collateral: ICollateral,
+  product: string,
+  accounts: string[],
+  { dryRun = false, maxLiquidations }: { dryRun?: boolean; maxLiquidations?: number } = {},
+): Promise<LiquidationResult[]> {
+  const results: LiquidationResult[] = []
+  for (const account of accounts) {
+    if (maxLiquidations !== undefined && results.length >= maxLiquidations) break
+
+    try {
+      await collateral.callStatic.liquidate(account, product)
+    } catch (e) {
+      if (SKIPPED_ERRORS.includes(decodeError(e)?.name ?? '')) continue
+      throw e
+    }
+
+    if (dryRun) {
+      results.push({ account, product })
+      continue
+    }
+
+    const receipt = await (await collateral.liquidate(account, product)).wait()
+    const liquidation = receipt.events?.find(e => e.event === 'Liquidation')
+    results.push({ account, product, hash: receipt.transactionHash, fee: liquidation?.args?.fee })
+  }
+  return results
+}
@@ -0,0 +1,205 @@
+import { BigNumber, BigNumberish, BytesLike, utils } from 'ethers'
+import { IMultiInvoker, IMultiInvoker__factory } from '../types/generated'
+
+/**
+ * Mirrors `IMultiInvoker.PerennialAction`
+ * @dev Typechain types Solidity enums as plain numbers, so the members must be kept in the contract's order
+ */
+export enum PerennialAction {
+  NO_OP,
+  DEPOSIT,
+  WITHDRAW,
+  OPEN_TAKE,
+  CLOSE_TAKE,
+  OPEN_MAKE,
+  CLOSE_MAKE,
+  CLAIM,
+  WRAP,
+  UNWRAP,
+  WRAP_AND_DEPOSIT,
+  WITHDRAW_AND_UNWRAP,
+  VAULT_DEPOSIT,
+  VAULT_REDEEM,
+  VAULT_CLAIM,
+  VAULT_WRAP_AND_DEPOSIT,
+}
+
+// Arguments of each action, as `MultiInvoker.invoke` decodes them. UFixed18 and contract types are their ABI types.
+const ACTION_ARGS: { [action in PerennialAction]: string[] } = {
+  [PerennialAction.NO_OP]: [],
+  [PerennialAction.DEPOSIT]: ['address account', 'address product', 'uint256 amount'],
+  [PerennialAction.WITHDRAW]: ['address receiver', 'address product', 'uint256 amount'],
+  [PerennialAction.OPEN_TAKE]: ['address product', 'uint256 amount'],
+  [PerennialAction.CLOSE_TAKE]: ['address product', 'uint256 amount'],
+  [PerennialAction.OPEN_MAKE]: ['address product', 'uint256 amount'],
+  [PerennialAction.CLOSE_MAKE]: ['address product', 'uint256 amount'],
+  [PerennialAction.CLAIM]: ['address product', 'uint256[] programIds'],
+  [PerennialAction.WRAP]: ['address receiver', 'uint256 amount'],
+  [PerennialAction.UNWRAP]: ['address receiver', 'uint256 amount'],
+  [PerennialAction.WRAP_AND_DEPOSIT]: ['address account', 'address product', 'uint256 amount'],
+  [PerennialAction.WITHDRAW_AND_UNWRAP]: ['address receiver', 'address product', 'uint256 amount'],
+  [PerennialAction.VAULT_DEPOSIT]: ['address account', 'address vault', 'uint256 amount'],
+  [PerennialAction.VAULT_REDEEM]: ['address vault', 'uint256 shares'],
+  [PerennialAction.VAULT_CLAIM]: ['address owner', 'address vault'],
+  [PerennialAction.VAULT_WRAP_AND_DEPOSIT]: ['address account', 'address vault', 'uint256 amount'],
+}
+
+// Arguments holding UFixed18 values, formatted as decimals by `formatInvocation`
+const UFIXED18_ARGS = ['amount', 'shares']
+
+export interface DecodedInvocation {
+  action: keyof typeof PerennialAction
+  args: { [name: string]: string | BigNumber | BigNumber[] }
+}
+
+/**
+ * Encodes a single invocation, checking `args` against the types `MultiInvoker.invoke` decodes them as
+ */
+export function encodeInvocation(action: PerennialAction, args: unknown[] = []): IMultiInvoker.InvocationStruct {
+  const params = ACTION_ARGS[action]
+  if (params === undefined) throw new Error(`Unknown MultiInvoker action ${action}`)
+  if (args.length !== params.length) {
+    throw new Error(`${PerennialAction[action]} takes ${params.length} arguments, got ${args.length}`)
+  }
+  return {
+    action,
+    args: utils.defaultAbiCoder.encode(
+      params.map(param => utils.ParamType.from(param)),
+      args,
+    ),
+  }
+}
+
+/**
+ * Fluent builder for a batch of MultiInvoker invocations on behalf of `account`
+ * @dev Every step is encoded as it is added, so invalid arguments throw at the step that passed them
+ */
+export class InvocationBuilder {
+  private readonly account: string
+  private readonly invocations: IMultiInvoker.InvocationStruct[] = []
+
+  constructor(account: string) {
+    this.account = account
+  }
+
+  public noop(): this {
+    return this.push(PerennialAction.NO_OP)
+  }
+
+  public deposit(product: string, amount: BigNumberish): this {
+    return this.push(PerennialAction.DEPOSIT, this.account, product, amount)
+  }
+
+  public withdraw(product: string, amount: BigNumberish): this {
+    return this.push(PerennialAction.WITHDRAW, this.account, product, amount)
+  }
+
+  public openTake(product: string, amount: BigNumberish): this {
+    return this.push(PerennialAction.OPEN_TAKE, product, amount)
+  }
+
+  public closeTake(product: string, amount: BigNumberish): this {
+    return this.push(PerennialAction.CLOSE_TAKE, product, amount)
+  }
+
+  public openMake(product: string, amount: BigNumberish): this {
+    return this.push(PerennialAction.OPEN_MAKE, product, amount)
+  }
+
+  public closeMake(product: string, amount: BigNumberish): this {
+    return this.push(PerennialAction.CLOSE_MAKE, product, amount)
+  }
+
+  public claim(product: string, programIds: BigNumberish[]): this {
+    return this.push(PerennialAction.CLAIM, product, programIds)
+  }
+
+  public wrap(amount: BigNumberish): this {
+    return this.push(PerennialAction.WRAP, this.account, amount)
+  }
+
+  public unwrap(amount: BigNumberish): this {
+    return this.push(PerennialAction.UNWRAP, this.account, amount)
+  }
+
+  public wrapAndDeposit(product: string, amount: BigNumberish): this {
+    return this.push(PerennialAction.WRAP_AND_DEPOSIT, this.account, product, amount)
+  }
+
+  public withdrawAndUnwrap(product: string, amount: BigNumberish): this {
+    return this.push(PerennialAction.WITHDRAW_AND_UNWRAP, this.account, product, amount)
+  }
+
+  public vaultDeposit(vault: string, amount: BigNumberish): this {
+    return this.push(PerennialAction.VAULT_DEPOSIT, this.account, vault, amount)
+  }
+
+  public vaultRedeem(vault: string, shares: BigNumberish): this {
+    return this.push(PerennialAction.VAULT_REDEEM, vault, shares)
+  }
+
+  public vaultClaim(vault: string): this {
+    return this.push(PerennialAction.VAULT_CLAIM, this.account, vault)
+  }
+
+  public vaultWrapAndDeposit(vault: string, amount: BigNumberish): this {
+    return this.push(PerennialAction.VAULT_WRAP_AND_DEPOSIT, this.account, vault, amount)
+  }
+
+  public build(): IMultiInvoker.InvocationStruct[] {
+    return [...this.invocations]
+  }
+
+  // Calldata of `invoke` with the batch
+  public encode(): string {
+    return IMultiInvoker__factory.createInterface().encodeFunctionData('invoke', [this.invocations])
+  }
+
+  private push(action: PerennialAction, ...args: unknown[]): this {
+    this.invocations.push(encodeInvocation(action, args))
+    return this
+  }
+}
+
+/**
+ * Whether `data` calls `IMultiInvoker.invoke`, judging by its selector
+ */
+export function isInvokeCalldata(data: BytesLike): boolean {
+  if (utils.hexDataLength(data) < 4) return false
+  return utils.hexDataSlice(data, 0, 4) === IMultiInvoker__factory.createInterface().getSighash('invoke')
+}
+
+/**
+ * Decodes the calldata of `IMultiInvoker.invoke` into its steps
+ */
+export function decodeInvocations(data: BytesLike): DecodedInvocation[] {
+  const [invocations] = IMultiInvoker__factory.createInterface().decodeFunctionData('invoke', data)
+  return (invocations as IMultiInvoker.InvocationStructOutput[]).map(({ action, args }) =>
+    decodeInvocation(action, args),
+  )
+}
+
+export function decodeInvocation(action: BigNumberish, args: BytesLike): DecodedInvocation {
+  const id = BigNumber.from(action).toNumber() as PerennialAction
+  const params = ACTION_ARGS[id]
+  if (params === undefined) throw new Error(`Unknown MultiInvoker action ${id}`)
+
+  const paramTypes = params.map(param => utils.ParamType.from(param))
+  const values = utils.defaultAbiCoder.decode(paramTypes, args)
+  return {
+    action: PerennialAction[id] as keyof typeof PerennialAction,
+    args: paramTypes.reduce((acc: DecodedInvocation['args'], param, i) => ({ ...acc, [param.name]: values[i] }), {}),
+  }
+}
+
+/**
+ * Formats a decoded step on one line, e.g. `OPEN_TAKE product=0x... amount=0.001`
+ */
+export function formatInvocation({ action, args }: DecodedInvocation): string {
+  const formatted = Object.entries(args).map(([name, value]) => {
+    if (Array.isArray(value)) return `${name}=[${value.map(v => v.toString()).join(', ')}]`
+    if (UFIXED18_ARGS.includes(name)) return `${name}=${utils.formatEther(value)}`
+    return `${name}=${value.toString()}`
+  })
+  return [action, ...formatted].join(' ')
+}
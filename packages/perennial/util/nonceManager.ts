@@ -0,0 +1,23 @@
+import { Signer } from 'ethers'
+
+/**
+ * Hands out sequential nonces for a signer so that several transactions can be in flight at once
+ * @dev Call `reset` after a failed transaction to re-sync with the pending nonce of the network
+ */
+export class NonceManager {
+  private readonly signer: Signer
+  private nonce?: number
+
+  constructor(signer: Signer) {
+    this.signer = signer
+  }
+
+  public async next(): Promise<number> {
+    if (this.nonce === undefined) this.nonce = await this.signer.getTransactionCount('pending')
+    return this.nonce++
+  }
+
+  public reset(): void {
+    this.nonce = undefined
+  }
+}
@@ -0,0 +1,61 @@
+import { BigNumber, constants } from 'ethers'
+import { IPerennialLens } from '../types/generated'
+import { chunk } from './chunk'
+
+const PRODUCT_BATCH_SIZE = 25
+
+export interface PortfolioEntry {
+  product: string
+  symbol: string
+  snapshot: IPerennialLens.UserProductSnapshotStructOutput
+  rewards: { token: string; amount: BigNumber }[]
+}
+
+export interface PortfolioTotals {
+  collateral: BigNumber
+  maintenance: BigNumber
+  fees: BigNumber
+  exposure: BigNumber
+  rewards: { token: string; amount: BigNumber }[]
+}
+
+export async function getPortfolio(
+  lens: IPerennialLens,
+  account: string,
+  products: string[],
+): Promise<PortfolioEntry[]> {
+  const entries: PortfolioEntry[] = []
+  for (const productGroup of chunk(products, PRODUCT_BATCH_SIZE)) {
+    const [snapshots, symbols, rewards] = await Promise.all([
+      lens.callStatic['snapshots(address,address[])'](account, productGroup),
+      Promise.all(productGroup.map(product => lens.callStatic.symbol(product))),
+      Promise.all(
+        productGroup.map(product => lens.callStatic['unclaimedIncentiveRewards(address,address)'](account, product)),
+      ),
+    ])
+    productGroup.forEach((product, i) =>
+      entries.push({
+        product,
+        symbol: symbols[i],
+        snapshot: snapshots[i],
+        rewards: rewards[i].tokens.map((token, j) => ({ token, amount: rewards[i].amounts[j] })),
+      }),
+    )
+  }
+  return entries
+}
+
+export function portfolioTotals(entries: PortfolioEntry[]): PortfolioTotals {
+  const rewards: { [token: string]: BigNumber } = {}
+  entries.forEach(({ rewards: entryRewards }) =>
+    entryRewards.forEach(({ token, amount }) => (rewards[token] = (rewards[token] || constants.Zero).add(amount))),
+  )
+
+  return {
+    collateral: entries.reduce((total, { snapshot }) => total.add(snapshot.collateral), constants.Zero),
+    maintenance: entries.reduce((total, { snapshot }) => total.add(snapshot.maintenance), constants.Zero),
+    fees: entries.reduce((total, { snapshot }) => total.add(snapshot.fees), constants.Zero),
+    exposure: entries.reduce((total, { snapshot }) => total.add(snapshot.exposure), constants.Zero),
+    rewards: Object.keys(rewards).map(token => ({ token, amount: rewards[token] })),
+  }
+}
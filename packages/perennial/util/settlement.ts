@@ -0,0 +1,102 @@
+import { BigNumber, ContractTransaction } from 'ethers'
+import { IPerennialLens, IProduct } from '../types/generated'
+import { NonceManager } from './nonceManager'
+
+export interface SettleResult {
+  product: string
+  account?: string
+  preVersion: BigNumber
+  toVersion: BigNumber
+  hash: string
+}
+
+export async function needsSettlement(product: IProduct): Promise<boolean> {
+  const [currentVersion, latestVersion] = await Promise.all([product.currentVersion(), product['latestVersion()']()])
+  return currentVersion.version.gt(latestVersion)
+}
+
+export async function topAccountsByExposure(
+  lens: IPerennialLens,
+  product: string,
+  users: string[],
+  count: number,
+): Promise<string[]> {
+  if (count <= 0) return []
+
+  const exposures = await Promise.all(users.map(account => lens.callStatic.exposure(account, product)))
+  return users
+    .map((account, i) => ({ account, exposure: exposures[i] }))
+    .filter(({ exposure }) => !exposure.isZero())
+    .sort((a, b) => (b.exposure.gt(a.exposure) ? 1 : b.exposure.lt(a.exposure) ? -1 : 0))
+    .slice(0, count)
+    .map(({ account }) => account)
+}
+
+/**
+ * Settles every product whose oracle has moved past its latest settled version
+ * @dev Settlement state is re-read from chain on every call, so calling this again for the same oracle
+ *      version is a no-op. All transactions are sent before any receipt is awaited.
+ */
+export async function settleProducts(products: IProduct[], nonceManager: NonceManager): Promise<SettleResult[]> {
+  const stale = await Promise.all(products.map(product => needsSettlement(product)))
+
+  const pending: ContractTransaction[] = []
+  for (const product of products.filter((_, i) => stale[i])) {
+    pending.push(await send(nonceManager, async nonce => product.settle({ nonce })))
+  }
+
+  return collectSettles(pending, 'Settle')
+}
+
+/**
+ * Settles each of `accounts` in `product` that is behind the product's latest settled version
+ */
+export async function settleAccounts(
+  product: IProduct,
+  accounts: string[],
+  nonceManager: NonceManager,
+): Promise<SettleResult[]> {
+  const latestVersion = await product['latestVersion()']()
+  const accountVersions = await Promise.all(accounts.map(account => product['latestVersion(address)'](account)))
+
+  const pending: ContractTransaction[] = []
+  for (const account of accounts.filter((_, i) => accountVersions[i].lt(latestVersion))) {
+    pending.push(await send(nonceManager, async nonce => product.settleAccount(account, { nonce })))
+  }
+
+  return collectSettles(pending, 'AccountSettle')
+}
+
+async function send(
+  nonceManager: NonceManager,
+  fn: (nonce: number) => Promise<ContractTransaction>,
+): Promise<ContractTransaction> {
+  try {
+    return await fn(await nonceManager.next())
+  } catch (e) {
+    nonceManager.reset()
+    throw e
+  }
+}
+
+async function collectSettles(
+  pending: ContractTransaction[],
+  eventName: 'Settle' | 'AccountSettle',
+): Promise<SettleResult[]> {
+  const receipts = await Promise.all(pending.map(tx => tx.wait()))
+  return receipts.reduce<SettleResult[]>(
+    (results, receipt) =>
+      results.concat(
+        (receipt.events || [])
+          .filter(e => e.event === eventName)
+          .map(e => ({
+            product: e.address,
+            account: e.args?.account,
+            preVersion: e.args?.preVersion,
+            toVersion: e.args?.toVersion,
+            hash: receipt.transactionHash,
+          })),
+      ),
+    [],
+  )
+}
@@ -0,0 +1,457 @@
+import { BigNumber, BigNumberish, CallOverrides, constants } from 'ethers'
+import { IController, IProduct } from '../types/generated'
+import { Fixed18Math, UFixed18Math } from '../../common/testutil/fixed'
+
+const YEAR = 365 * 24 * 60 * 60
+
+export interface OracleVersion {
+  version: BigNumber
+  timestamp: BigNumber
+  price: BigNumber
+}
+
+export interface Position {
+  maker: BigNumber
+  taker: BigNumber
+}
+
+export interface PrePosition {
+  oracleVersion: BigNumber
+  openPosition: Position
+  closePosition: Position
+}
+
+export interface Accumulator {
+  maker: BigNumber
+  taker: BigNumber
+}
+
+export interface UtilizationCurve {
+  minRate: BigNumber
+  maxRate: BigNumber
+  targetRate: BigNumber
+  targetUtilization: BigNumber
+}
+
+/**
+ * Product parameters used by settlement
+ * @dev `fundingFee` is the bounded funding fee, the larger of the product's and the controller's minimum
+ */
+export interface SettlementParameters {
+  fundingFee: BigNumber
+  makerFee: BigNumber
+  takerFee: BigNumber
+  positionFee: BigNumber
+  utilizationCurve: UtilizationCurve
+  closed: boolean
+}
+
+/**
+ * Global product state as of its latest settled oracle version
+ */
+export interface ProductSettlementState {
+  latestVersion: OracleVersion
+  position: Position
+  pre: PrePosition
+  value: Accumulator
+  share: Accumulator
+}
+
+export interface ProductSettlement extends ProductSettlementState {
+  // Funding and position fees retained by the protocol and product over the settlement
+  fee: BigNumber
+}
+
+/**
+ * Account state as of its latest settled oracle version
+ */
+export interface AccountSettlementState {
+  latestVersion: BigNumber
+  position: Position
+  pre: PrePosition
+}
+
+export interface AccountSettlement extends AccountSettlementState {
+  // Value credited to the account's collateral
+  value: BigNumber
+}
+
+/**
+ * Reads `product`'s settlement parameters, bounding its funding fee by `controller`'s minimum
+ * @param overrides Call overrides, such as a `blockTag` to read the parameters a past settlement used
+ */
+export async function readSettlementParameters(
+  product: IProduct,
+  controller: IController,
+  overrides: CallOverrides = {},
+): Promise<SettlementParameters> {
+  const [fundingFee, minFundingFee, makerFee, takerFee, positionFee, utilizationCurve, closed] = await Promise.all([
+    product.fundingFee(overrides),
+    controller.minFundingFee(overrides),
+    product.makerFee(overrides),
+    product.takerFee(overrides),
+    product.positionFee(overrides),
+    product.utilizationCurve(overrides),
+    product.closed(overrides),
+  ])
+  return {
+    fundingFee: fundingFee.gt(minFundingFee) ? fundingFee : minFundingFee,
+    makerFee,
+    takerFee,
+    positionFee,
+    utilizationCurve: {
+      minRate: utilizationCurve.minRate,
+      maxRate: utilizationCurve.maxRate,
+      targetRate: utilizationCurve.targetRate,
+      targetUtilization: utilizationCurve.targetUtilization,
+    },
+    closed,
+  }
+}
+
+/**
+ * Reads `product`'s global state as of its latest settled oracle version
+ * @param overrides Call overrides, such as a `blockTag` to read the state a past settlement started from
+ */
+export async function readProductSettlementState(
+  product: IProduct,
+  overrides: CallOverrides = {},
+): Promise<ProductSettlementState> {
+  const version = await product['latestVersion()'](overrides)
+  const [latestVersion, position, pre, value, share] = await Promise.all([
+    product.atVersion(version, overrides),
+    product.positionAtVersion(version, overrides),
+    product['pre()'](overrides),
+    product.valueAtVersion(version, overrides),
+    product.shareAtVersion(version, overrides),
+  ])
+  return {
+    latestVersion: toOracleVersion(latestVersion),
+    position: toPosition(position),
+    pre: toPrePosition(pre),
+    value: { maker: value.maker, taker: value.taker },
+    share: { maker: share.maker, taker: share.taker },
+  }
+}
+
+/**
+ * Reads `account`'s state in `product` as of its latest settled oracle version
+ */
+export async function readAccountSettlementState(product: IProduct, account: string): Promise<AccountSettlementState> {
+  const [latestVersion, position, pre] = await Promise.all([
+    product['latestVersion(address)'](account),
+    product.position(account),
+    product['pre(address)'](account),
+  ])
+  return { latestVersion, position: toPosition(position), pre: toPrePosition(pre) }
+}
+
+/**
+ * Mirrors `Product.settle`: settles the product from its latest version to the pending position's settle version,
+ * then on to `currentVersion`
+ * @dev Oracle versions are the product's, i.e. with the payoff already applied, so `product.atVersion` can be passed
+ *      as `atVersion`. Fee updates that `Product` applies between the two intervals are not modeled.
+ */
+export async function projectProductSettlement(
+  state: ProductSettlementState,
+  parameters: SettlementParameters,
+  currentVersion: OracleVersion,
+  atVersion: (version: BigNumber) => Promise<OracleVersion>,
+): Promise<ProductSettlement> {
+  if (state.latestVersion.version.eq(currentVersion.version)) return { ...state, fee: constants.Zero }
+
+  const settleVersion = settleVersionOf(state.pre, currentVersion.version)
+  const settleOracleVersion = settleVersion.eq(currentVersion.version)
+    ? currentVersion
+    : toOracleVersion(await atVersion(settleVersion))
+
+  const settled = accumulateVersion(state, parameters, settleOracleVersion)
+  if (settleOracleVersion.version.eq(currentVersion.version)) return settled
+
+  const current = accumulateVersion(settled, parameters, currentVersion)
+  return { ...current, fee: settled.fee.add(current.fee) }
+}
+
+/**
+ * Mirrors `VersionedAccumulator.accumulate` and `VersionedPosition.settle`: accumulates value and share from the
+ * state's latest version to `toVersion`, then applies the pending position if it settles by then
+ * @return the position, `valueAtVersion` and `shareAtVersion` stamped at `toVersion`
+ */
+export function accumulateVersion(
+  state: ProductSettlementState,
+  parameters: SettlementParameters,
+  toVersion: OracleVersion,
+): ProductSettlement {
+  const { latestVersion, position, pre } = state
+
+  const { funding, pnl, positionFee, fee } = accumulateValue(parameters, position, pre, latestVersion, toVersion)
+  const share = accumulateShare(position, latestVersion, toVersion)
+
+  const settles = canSettle(pre, toVersion.version)
+  return {
+    latestVersion: toVersion,
+    position: settles ? nextPosition(position, pre) : position,
+    pre: settles ? emptyPrePosition() : pre,
+    value: addAccumulators(state.value, funding, pnl, positionFee),
+    share: addAccumulators(state.share, share),
+    fee,
+  }
+}
+
+/**
+ * Mirrors the value half of `VersionedAccumulator.accumulate`, split into the funding, price PnL and position fee
+ * accumulated per unit of `position` from `latestVersion` to `toVersion`
+ * @return the three accumulators, which sum to the change in `valueAtVersion`, and the fee kept by the protocol
+ */
+export function accumulateValue(
+  parameters: SettlementParameters,
+  position: Position,
+  pre: PrePosition,
+  latestVersion: OracleVersion,
+  toVersion: OracleVersion,
+): { funding: Accumulator; pnl: Accumulator; positionFee: Accumulator; fee: BigNumber } {
+  const funding = accumulateFunding(parameters, position, latestVersion, toVersion)
+  const positionFee = accumulatePositionFee(parameters, position, pre, latestVersion)
+  return {
+    funding: funding.value,
+    pnl: accumulatePosition(parameters, position, latestVersion, toVersion),
+    positionFee: positionFee.value,
+    fee: funding.fee.add(positionFee.fee),
+  }
+}
+
+/**
+ * Mirrors `Product.settleAccount` once the product has been settled to `currentVersion`
+ * @param valueAtVersion Global value accumulator stamped at the given version, such as `product.valueAtVersion`
+ */
+export async function projectAccountSettlement(
+  state: AccountSettlementState,
+  currentVersion: OracleVersion,
+  valueAtVersion: (version: BigNumber) => Promise<Accumulator>,
+): Promise<AccountSettlement> {
+  if (state.latestVersion.eq(currentVersion.version)) return { ...state, value: constants.Zero }
+
+  const settleVersion = settleVersionOf(state.pre, currentVersion.version)
+  let value = accountValue(
+    state.position,
+    await valueAtVersion(state.latestVersion),
+    await valueAtVersion(settleVersion),
+  )
+
+  const settles = canSettle(state.pre, settleVersion)
+  const position = settles ? nextPosition(state.position, state.pre) : state.position
+  const pre = settles ? emptyPrePosition() : state.pre
+
+  if (!settleVersion.eq(currentVersion.version)) {
+    value = value.add(
+      accountValue(position, await valueAtVersion(settleVersion), await valueAtVersion(currentVersion.version)),
+    )
+  }
+  return { latestVersion: currentVersion.version, position, pre, value }
+}
+
+/**
+ * Mirrors `AccountAccumulator.syncTo`: the value `position` accumulates between two global value stamps
+ */
+export function accountValue(position: Position, fromValue: Accumulator, toValue: Accumulator): BigNumber {
+  return Fixed18Math.mul(position.maker, toValue.maker.sub(fromValue.maker)).add(
+    Fixed18Math.mul(position.taker, toValue.taker.sub(fromValue.taker)),
+  )
+}
+
+/**
+ * Mirrors `Product.rate`: the per-second funding rate for `position`
+ */
+export function fundingRate(curve: UtilizationCurve, position: Position): BigNumber {
+  const annualizedRate = computeUtilizationCurve(curve, UFixed18Math.unsafeDiv(position.taker, position.maker))
+  return Fixed18Math.div(annualizedRate, Fixed18Math.from(YEAR))
+}
+
+/**
+ * Mirrors `JumpRateUtilizationCurve.compute`: the annualized rate at `utilization`
+ */
+export function computeUtilizationCurve(curve: UtilizationCurve, utilization: BigNumber): BigNumber {
+  const { minRate, maxRate, targetRate, targetUtilization } = curve
+  if (utilization.lt(targetUtilization))
+    return linearInterpolation(constants.Zero, minRate, targetUtilization, targetRate, utilization)
+  if (utilization.lt(UFixed18Math.ONE))
+    return linearInterpolation(targetUtilization, targetRate, UFixed18Math.ONE, maxRate, utilization)
+  return maxRate
+}
+
+/**
+ * Mirrors `Position.socializationFactor`: the share of the taker position covered by makers
+ */
+export function socializationFactor(position: Position): BigNumber {
+  if (position.taker.isZero()) return UFixed18Math.ONE
+  return UFixed18Math.min(UFixed18Math.ONE, UFixed18Math.div(position.maker, position.taker))
+}
+
+function accumulateFunding(
+  parameters: SettlementParameters,
+  position: Position,
+  latestVersion: OracleVersion,
+  toVersion: OracleVersion,
+): { value: Accumulator; fee: BigNumber } {
+  if (parameters.closed || position.taker.isZero() || position.maker.isZero())
+    return { value: emptyAccumulator(), fee: constants.Zero }
+
+  const elapsed = toVersion.timestamp.sub(latestVersion.timestamp)
+  const takerNotional = Fixed18Math.abs(Fixed18Math.mul(position.taker, latestVersion.price))
+  const socializedNotional = UFixed18Math.mul(takerNotional, socializationFactor(position))
+
+  const rateAccumulated = Fixed18Math.mul(fundingRate(parameters.utilizationCurve, position), Fixed18Math.from(elapsed))
+  const fundingAccumulated = Fixed18Math.mul(rateAccumulated, socializedNotional)
+  const fee = UFixed18Math.mul(Fixed18Math.abs(fundingAccumulated), parameters.fundingFee)
+  const fundingAccumulatedWithoutFee = Fixed18Math.fromSign(
+    Fixed18Math.sign(fundingAccumulated),
+    UFixed18Math.sub(Fixed18Math.abs(fundingAccumulated), fee),
+  )
+
+  const makerPaysFunding = fundingAccumulated.isNegative()
+  return {
+    value: {
+      maker: Fixed18Math.div(makerPaysFunding ? fundingAccumulated : fundingAccumulatedWithoutFee, position.maker),
+      taker: Fixed18Math.mul(
+        Fixed18Math.div(makerPaysFunding ? fundingAccumulatedWithoutFee : fundingAccumulated, position.taker),
+        Fixed18Math.NEG_ONE,
+      ),
+    },
+    fee,
+  }
+}
+
+function accumulatePosition(
+  parameters: SettlementParameters,
+  position: Position,
+  latestVersion: OracleVersion,
+  toVersion: OracleVersion,
+): Accumulator {
+  if (parameters.closed || position.taker.isZero() || position.maker.isZero()) return emptyAccumulator()
+
+  const oracleDelta = toVersion.price.sub(latestVersion.price)
+  const totalTakerDelta = Fixed18Math.mul(oracleDelta, position.taker)
+  const socializedTakerDelta = Fixed18Math.mul(totalTakerDelta, socializationFactor(position))
+
+  return {
+    maker: Fixed18Math.mul(Fixed18Math.div(socializedTakerDelta, position.maker), Fixed18Math.NEG_ONE),
+    taker: Fixed18Math.div(socializedTakerDelta, position.taker),
+  }
+}
+
+// Position fees are charged at the latest version's price, see `VersionedAccumulator._accumulatePositionFee`
+function accumulatePositionFee(
+  parameters: SettlementParameters,
+  position: Position,
+  pre: PrePosition,
+  latestVersion: OracleVersion,
+): { value: Accumulator; fee: BigNumber } {
+  const value = emptyAccumulator()
+  if (isEmpty(pre.openPosition) && isEmpty(pre.closePosition)) return { value, fee: constants.Zero }
+
+  const delta = add(pre.openPosition, pre.closePosition)
+  const makerNotional = Fixed18Math.abs(Fixed18Math.mul(delta.maker, latestVersion.price))
+  const takerNotional = Fixed18Math.abs(Fixed18Math.mul(delta.taker, latestVersion.price))
+  const makerFee = UFixed18Math.mul(makerNotional, parameters.makerFee)
+  const takerFee = UFixed18Math.mul(takerNotional, parameters.takerFee)
+  const protocolMakerFee = UFixed18Math.mul(makerFee, parameters.positionFee)
+  const protocolTakerFee = UFixed18Math.mul(takerFee, parameters.positionFee)
+  let fee = protocolMakerFee.add(protocolTakerFee)
+
+  // Each side's fee goes to the other side, or to the protocol if that side is empty
+  if (!position.maker.isZero()) value.maker = UFixed18Math.div(takerFee.sub(protocolTakerFee), position.maker)
+  else fee = fee.add(takerFee.sub(protocolTakerFee))
+  if (!position.taker.isZero()) value.taker = UFixed18Math.div(makerFee.sub(protocolMakerFee), position.taker)
+  else fee = fee.add(makerFee.sub(protocolMakerFee))
+
+  return { value, fee }
+}
+
+function accumulateShare(position: Position, latestVersion: OracleVersion, toVersion: OracleVersion): Accumulator {
+  const elapsed = UFixed18Math.from(toVersion.timestamp.sub(latestVersion.timestamp))
+  return {
+    maker: position.maker.isZero() ? constants.Zero : UFixed18Math.div(elapsed, position.maker),
+    taker: position.taker.isZero() ? constants.Zero : UFixed18Math.div(elapsed, position.taker),
+  }
+}
+
+function settleVersionOf(pre: PrePosition, currentVersion: BigNumber): BigNumber {
+  return pre.oracleVersion.isZero() ? currentVersion : pre.oracleVersion.add(1)
+}
+
+function canSettle(pre: PrePosition, toVersion: BigNumber): boolean {
+  return !pre.oracleVersion.isZero() && toVersion.gt(pre.oracleVersion)
+}
+
+/**
+ * Mirrors `Position.next`: the position once `pre` is settled
+ */
+export function nextPosition(position: Position, pre: PrePosition): Position {
+  return {
+    maker: position.maker.add(pre.openPosition.maker).sub(pre.closePosition.maker),
+    taker: position.taker.add(pre.openPosition.taker).sub(pre.closePosition.taker),
+  }
+}
+
+function add(a: Position, b: Position): Position {
+  return { maker: a.maker.add(b.maker), taker: a.taker.add(b.taker) }
+}
+
+function addAccumulators(...accumulators: Accumulator[]): Accumulator {
+  return accumulators.reduce((sum, accumulator) => add(sum, accumulator), emptyAccumulator())
+}
+
+function isEmpty(position: Position): boolean {
+  return position.maker.isZero() && position.taker.isZero()
+}
+
+function emptyAccumulator(): Accumulator {
+  return { maker: constants.Zero, taker: constants.Zero }
+}
+
+function emptyPrePosition(): PrePosition {
+  return {
+    oracleVersion: constants.Zero,
+    openPosition: { maker: constants.Zero, taker: constants.Zero },
+    closePosition: { maker: constants.Zero, taker: constants.Zero },
+  }
+}
+
+function linearInterpolation(
+  startX: BigNumber,
+  startY: BigNumber,
+  endX: BigNumber,
+  endY: BigNumber,
+  targetX: BigNumber,
+): BigNumber {
+  const xRatio = UFixed18Math.div(targetX.sub(startX), endX.sub(startX))
+  return Fixed18Math.mul(endY.sub(startY), xRatio).add(startY)
+}
+
+function toOracleVersion(version: {
+  version: BigNumberish
+  timestamp: BigNumberish
+  price: BigNumberish
+}): OracleVersion {
+  return {
+    version: BigNumber.from(version.version),
+    timestamp: BigNumber.from(version.timestamp),
+    price: BigNumber.from(version.price),
+  }
+}
+
+function toPosition(position: { maker: BigNumber; taker: BigNumber }): Position {
+  return { maker: position.maker, taker: position.taker }
+}
+
+function toPrePosition(pre: {
+  oracleVersion: BigNumber
+  openPosition: Position
+  closePosition: Position
+}): PrePosition {
+  return {
+    oracleVersion: pre.oracleVersion,
+    openPosition: toPosition(pre.openPosition),
+    closePosition: toPosition(pre.closePosition),
+  }
+}
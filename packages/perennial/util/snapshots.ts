@@ -0,0 +1,106 @@
+import { BigNumber } from 'ethers'
+import { IPerennialLens } from '../types/generated'
+import { chunk } from './chunk'
+
+const PRODUCT_BATCH_SIZE = 25
+
+export type FlatSnapshot = { [path: string]: string }
+
+export interface LensSnapshots {
+  protocol: FlatSnapshot
+  products: { [product: string]: FlatSnapshot }
+  // User snapshots keyed by product, then by account
+  users: { [product: string]: { [account: string]: FlatSnapshot } }
+}
+
+export interface SnapshotDiff {
+  path: string
+  before?: string
+  after?: string
+}
+
+/**
+ * Takes flattened lens snapshots of the protocol, of every product in `products` and of every account in `users`
+ * in its product
+ */
+export async function takeLensSnapshots(
+  lens: IPerennialLens,
+  products: string[],
+  users: { [product: string]: string[] } = {},
+): Promise<LensSnapshots> {
+  const snapshots: LensSnapshots = { protocol: flatten(await lens.callStatic['snapshot()']()), products: {}, users: {} }
+  for (const productGroup of chunk(products, PRODUCT_BATCH_SIZE)) {
+    const productSnapshots = await lens.callStatic['snapshots(address[])'](productGroup)
+    productGroup.forEach((product, i) => (snapshots.products[product] = flatten(productSnapshots[i])))
+  }
+
+  // Snapshot each account once across all of its sampled products
+  const accountProducts: { [account: string]: string[] } = {}
+  Object.entries(users).forEach(([product, accounts]) =>
+    accounts.forEach(account => (accountProducts[account] = [...(accountProducts[account] ?? []), product])),
+  )
+  for (const [account, accountProductList] of Object.entries(accountProducts)) {
+    for (const productGroup of chunk(accountProductList, PRODUCT_BATCH_SIZE)) {
+      const userSnapshots = await lens.callStatic['snapshots(address,address[])'](account, productGroup)
+      productGroup.forEach((product, i) => {
+        snapshots.users[product] = { ...snapshots.users[product], [account]: flatten(userSnapshots[i]) }
+      })
+    }
+  }
+  return snapshots
+}
+
+/**
+ * Picks up to `count` accounts spread evenly across `accounts`, so repeated samples of the same list match
+ */
+export function sampleAccounts(accounts: string[], count: number): string[] {
+  if (accounts.length <= count) return accounts
+  const stride = accounts.length / count
+  return Array.from({ length: count }, (_, i) => accounts[Math.floor(i * stride)])
+}
+
+/**
+ * Lists every value that differs between `before` and `after`, keyed by `protocol.<path>`, `<product>.<path>` or
+ * `<product>.<account>.<path>`
+ */
+export function diffLensSnapshots(before: LensSnapshots, after: LensSnapshots): SnapshotDiff[] {
+  const diffs = diffFlat('protocol', before.protocol, after.protocol)
+  const products = Array.from(new Set([...Object.keys(before.products), ...Object.keys(after.products)]))
+  products.forEach(product =>
+    diffs.push(...diffFlat(product, before.products[product] ?? {}, after.products[product] ?? {})),
+  )
+
+  const userProducts = Array.from(new Set([...Object.keys(before.users), ...Object.keys(after.users)]))
+  userProducts.forEach(product => {
+    const beforeUsers = before.users[product] ?? {}
+    const afterUsers = after.users[product] ?? {}
+    const accounts = Array.from(new Set([...Object.keys(beforeUsers), ...Object.keys(afterUsers)]))
+    accounts.forEach(account =>
+      diffs.push(...diffFlat(`${product}.${account}`, beforeUsers[account] ?? {}, afterUsers[account] ?? {})),
+    )
+  })
+  return diffs
+}
+
+function diffFlat(prefix: string, before: FlatSnapshot, after: FlatSnapshot): SnapshotDiff[] {
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(path => before[path] !== after[path])
+    .map(path => ({ path: `${prefix}.${path}`, before: before[path], after: after[path] }))
+}
+
+/**
+ * Flattens a decoded struct into dot-separated paths, using field names where the ABI provides them
+ */
+function flatten(value: unknown, path = '', flat: FlatSnapshot = {}): FlatSnapshot {
+  if (BigNumber.isBigNumber(value)) {
+    flat[path] = value.toString()
+  } else if (Array.isArray(value)) {
+    const record = value as unknown as { [key: string]: unknown }
+    const names = Object.keys(value).filter(key => isNaN(Number(key)))
+    const keys = names.length > 0 ? names : value.map((_, i) => i.toString())
+    keys.forEach(key => flatten(record[key], path ? `${path}.${key}` : key, flat))
+  } else {
+    flat[path] = String(value)
+  }
+  return flat
+}
@@ -0,0 +1,78 @@
+import { BigNumber, constants } from 'ethers'
+import { ICollateral, IController, IERC20, IPerennialLens } from '../types/generated'
+import { chunk } from './chunk'
+
+const USER_BATCH_SIZE = 50
+
+export interface ProductSolvency {
+  product: string
+  users: number
+  collateral: BigNumber
+  shortfall: BigNumber
+  userCollateral: BigNumber
+  delta: BigNumber
+  solvent: boolean
+}
+
+export interface CollateralReconciliation {
+  balance: BigNumber
+  productCollateral: BigNumber
+  fees: BigNumber
+  delta: BigNumber
+  solvent: boolean
+}
+
+/**
+ * Compares `product`'s settled collateral and shortfall against the summed settled collateral of `users`
+ * @dev A product is solvent while its collateral covers every user balance. User balances it does not cover are
+ *      recorded as the product's shortfall, so a product with unresolved shortfall is insolvent as well.
+ */
+export async function auditProduct(lens: IPerennialLens, product: string, users: string[]): Promise<ProductSolvency> {
+  let userCollateral = constants.Zero
+  for (const userGroup of chunk(users, USER_BATCH_SIZE)) {
+    const balances = await Promise.all(
+      userGroup.map(account => lens.callStatic['collateral(address,address)'](account, product)),
+    )
+    userCollateral = balances.reduce((total, balance) => total.add(balance), userCollateral)
+  }
+
+  const [collateral, shortfall] = await Promise.all([
+    lens.callStatic['collateral(address)'](product),
+    lens.callStatic.shortfall(product),
+  ])
+  const delta = collateral.sub(userCollateral)
+
+  const solvent = shortfall.isZero() && !delta.isNegative()
+
+  return { product, users: users.length, collateral, shortfall, userCollateral, delta, solvent }
+}
+
+export async function getTreasuries(controller: IController, products: string[]): Promise<string[]> {
+  const treasuries = await Promise.all([
+    controller['treasury()'](),
+    ...products.map(product => controller['treasury(address)'](product)),
+  ])
+  return Array.from(new Set(treasuries.map(treasury => treasury.toLowerCase())))
+}
+
+/**
+ * Reconciles the Collateral contract's token balance against the collateral of every product plus the
+ * unclaimed fees of every treasury
+ */
+export async function reconcileCollateral(
+  collateral: ICollateral,
+  token: IERC20,
+  products: string[],
+  treasuries: string[],
+): Promise<CollateralReconciliation> {
+  const [balance, productCollaterals, treasuryFees] = await Promise.all([
+    token.balanceOf(collateral.address),
+    Promise.all(products.map(product => collateral['collateral(address)'](product))),
+    Promise.all(treasuries.map(treasury => collateral.fees(treasury))),
+  ])
+  const productCollateral = productCollaterals.reduce((total, value) => total.add(value), constants.Zero)
+  const fees = treasuryFees.reduce((total, value) => total.add(value), constants.Zero)
+  const delta = balance.sub(productCollateral).sub(fees)
+
+  return { balance, productCollateral, fees, delta, solvent: !delta.isNegative() }
+}
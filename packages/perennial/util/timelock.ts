@@ -0,0 +1,284 @@
+import { readFile } from 'fs/promises'
+import { BigNumber, constants, utils } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { IController, ProxyAdmin, TimelockController, UpgradeableBeacon } from '../types/generated'
+
+const CONTROLLER_FEE_ACTIONS = [
+  'updateProtocolFee',
+  'updateMinFundingFee',
+  'updateLiquidationFee',
+  'updateIncentivizationFee',
+  'updateMinCollateral',
+] as const
+
+type ControllerFeeAction = (typeof CONTROLLER_FEE_ACTIONS)[number]
+
+/**
+ * High-level admin action performed through the timelock
+ * @dev Decimal values are 18 decimal strings. Addresses may be given as a deployment name.
+ */
+export type TimelockAction =
+  | { action: ControllerFeeAction; value: string }
+  | { action: 'updateProgramsPerProduct'; value: number }
+  | { action: 'updatePaused'; value: boolean }
+  | { action: 'updatePauser'; value: string }
+  | { action: 'acceptCoordinatorOwner'; coordinatorId: number }
+  | { action: 'upgrade'; proxy: string; implementation: string }
+  | { action: 'upgradeBeacon'; implementation: string }
+
+export interface TimelockProposal {
+  description?: string
+  salt?: string
+  predecessor?: string
+  delay?: number
+  actions: TimelockAction[]
+}
+
+export interface TimelockCall {
+  target: string
+  value: BigNumber
+  data: string
+}
+
+export interface TimelockOperation {
+  id: string
+  calls: TimelockCall[]
+  predecessor: string
+  salt: string
+}
+
+export interface TimelockContracts {
+  timelock: TimelockController
+  controller: IController
+  proxyAdmin: ProxyAdmin
+  productBeacon: UpgradeableBeacon
+  // Resolves a deployment name or address to an address
+  resolveAddress: (nameOrAddress: string) => Promise<string>
+}
+
+/**
+ * Connects to the deployed TimelockController and the contracts it administers
+ */
+export async function getTimelockContracts(HRE: HardhatRuntimeEnvironment): Promise<TimelockContracts> {
+  const {
+    ethers,
+    deployments: { get },
+  } = HRE
+
+  return {
+    timelock: await ethers.getContractAt('TimelockController', (await get('TimelockController')).address),
+    controller: await ethers.getContractAt('IController', (await get('Controller_Proxy')).address),
+    proxyAdmin: await ethers.getContractAt('ProxyAdmin', (await get('ProxyAdmin')).address),
+    productBeacon: await ethers.getContractAt('UpgradeableBeacon', (await get('UpgradeableBeacon')).address),
+    resolveAddress: async nameOrAddress =>
+      utils.isAddress(nameOrAddress) ? nameOrAddress : (await get(nameOrAddress)).address,
+  }
+}
+
+/**
+ * Reads a proposal file
+ * @dev A predecessor may reference the proposal file it has to run after, which is resolved to its operation id
+ */
+export async function loadProposal(path: string, contracts: TimelockContracts): Promise<TimelockProposal> {
+  const proposal: TimelockProposal = JSON.parse(await readFile(path, 'utf-8'))
+  if (proposal.predecessor?.endsWith('.json'))
+    proposal.predecessor = (await buildOperation(await loadProposal(proposal.predecessor, contracts), contracts)).id
+  return proposal
+}
+
+/**
+ * Salt of `proposal`, derived from its description and actions unless set explicitly
+ */
+export function proposalSalt(proposal: TimelockProposal): string {
+  if (proposal.salt !== undefined) return utils.hexZeroPad(proposal.salt, 32)
+  return utils.id(JSON.stringify({ description: proposal.description ?? '', actions: proposal.actions }))
+}
+
+export async function encodeAction(action: TimelockAction, contracts: TimelockContracts): Promise<TimelockCall> {
+  const { controller, proxyAdmin, productBeacon, resolveAddress } = contracts
+  const call = (target: string, data: string) => ({ target, value: constants.Zero, data })
+
+  switch (action.action) {
+    case 'updateProtocolFee':
+    case 'updateMinFundingFee':
+    case 'updateLiquidationFee':
+    case 'updateIncentivizationFee':
+    case 'updateMinCollateral':
+      return call(
+        controller.address,
+        controller.interface.encodeFunctionData(action.action, [utils.parseEther(action.value)]),
+      )
+    case 'updateProgramsPerProduct':
+      return call(controller.address, controller.interface.encodeFunctionData(action.action, [action.value]))
+    case 'updatePaused':
+      return call(controller.address, controller.interface.encodeFunctionData(action.action, [action.value]))
+    case 'updatePauser':
+      return call(
+        controller.address,
+        controller.interface.encodeFunctionData(action.action, [await resolveAddress(action.value)]),
+      )
+    case 'acceptCoordinatorOwner':
+      return call(controller.address, controller.interface.encodeFunctionData(action.action, [action.coordinatorId]))
+    case 'upgrade':
+      return call(
+        proxyAdmin.address,
+        proxyAdmin.interface.encodeFunctionData('upgrade', [
+          await resolveAddress(action.proxy),
+          await resolveAddress(action.implementation),
+        ]),
+      )
+    case 'upgradeBeacon':
+      return call(
+        productBeacon.address,
+        productBeacon.interface.encodeFunctionData('upgradeTo', [await resolveAddress(action.implementation)]),
+      )
+  }
+}
+
+/**
+ * Decodes a timelock call back into the high-level action it performs
+ */
+export function decodeCall(call: TimelockCall, contracts: TimelockContracts): TimelockAction {
+  const { controller, proxyAdmin, productBeacon } = contracts
+  const target = call.target.toLowerCase()
+
+  if (target === controller.address.toLowerCase()) {
+    const { name, args } = controller.interface.parseTransaction(call)
+    if ((CONTROLLER_FEE_ACTIONS as readonly string[]).includes(name))
+      return { action: name as ControllerFeeAction, value: utils.formatEther(args[0]) }
+    if (name === 'updateProgramsPerProduct') return { action: name, value: args[0].toNumber() }
+    if (name === 'updatePaused') return { action: name, value: args[0] }
+    if (name === 'updatePauser') return { action: name, value: args[0] }
+    if (name === 'acceptCoordinatorOwner') return { action: name, coordinatorId: args[0].toNumber() }
+    throw `Unsupported Controller call ${name}`
+  }
+  if (target === proxyAdmin.address.toLowerCase()) {
+    const { name, args } = proxyAdmin.interface.parseTransaction(call)
+    if (name === 'upgrade') return { action: name, proxy: args[0], implementation: args[1] }
+    throw `Unsupported ProxyAdmin call ${name}`
+  }
+  if (target === productBeacon.address.toLowerCase()) {
+    const { name, args } = productBeacon.interface.parseTransaction(call)
+    if (name === 'upgradeTo') return { action: 'upgradeBeacon', implementation: args[0] }
+    throw `Unsupported UpgradeableBeacon call ${name}`
+  }
+  throw `Unsupported call target ${call.target}`
+}
+
+/**
+ * Computes the timelock operation id of `calls`, matching `hashOperation` and `hashOperationBatch`
+ */
+export function operationId(calls: TimelockCall[], predecessor: string, salt: string): string {
+  if (calls.length === 1) {
+    const [{ target, value, data }] = calls
+    return utils.keccak256(
+      utils.defaultAbiCoder.encode(
+        ['address', 'uint256', 'bytes', 'bytes32', 'bytes32'],
+        [target, value, data, predecessor, salt],
+      ),
+    )
+  }
+  return utils.keccak256(
+    utils.defaultAbiCoder.encode(
+      ['address[]', 'uint256[]', 'bytes[]', 'bytes32', 'bytes32'],
+      [calls.map(call => call.target), calls.map(call => call.value), calls.map(call => call.data), predecessor, salt],
+    ),
+  )
+}
+
+export async function buildOperation(
+  proposal: TimelockProposal,
+  contracts: TimelockContracts,
+): Promise<TimelockOperation> {
+  if (proposal.actions.length === 0) throw 'Proposal has no actions'
+
+  const calls: TimelockCall[] = []
+  for (const action of proposal.actions) calls.push(await encodeAction(action, contracts))
+  const predecessor = proposal.predecessor ?? constants.HashZero
+  const salt = proposalSalt(proposal)
+
+  return { id: operationId(calls, predecessor, salt), calls, predecessor, salt }
+}
+
+/**
+ * Encodes the `schedule` or `scheduleBatch` call for `operation`
+ */
+export function encodeSchedule(timelock: TimelockController, operation: TimelockOperation, delay: number): string {
+  const { calls, predecessor, salt } = operation
+  if (calls.length === 1) {
+    const [{ target, value, data }] = calls
+    return timelock.interface.encodeFunctionData('schedule', [target, value, data, predecessor, salt, delay])
+  }
+  return timelock.interface.encodeFunctionData('scheduleBatch', [
+    calls.map(call => call.target),
+    calls.map(call => call.value),
+    calls.map(call => call.data),
+    predecessor,
+    salt,
+    delay,
+  ])
+}
+
+/**
+ * Encodes the `execute` or `executeBatch` call for `operation`
+ */
+export function encodeExecute(timelock: TimelockController, operation: TimelockOperation): string {
+  const { calls, predecessor, salt } = operation
+  if (calls.length === 1) {
+    const [{ target, value, data }] = calls
+    return timelock.interface.encodeFunctionData('execute', [target, value, data, predecessor, salt])
+  }
+  return timelock.interface.encodeFunctionData('executeBatch', [
+    calls.map(call => call.target),
+    calls.map(call => call.value),
+    calls.map(call => call.data),
+    predecessor,
+    salt,
+  ])
+}
+
+/**
+ * Decodes `schedule`, `scheduleBatch`, `execute` or `executeBatch` calldata into its operation
+ */
+export function decodeTimelockCalldata(timelock: TimelockController, calldata: string): TimelockOperation {
+  const { name, args } = timelock.interface.parseTransaction({ data: calldata })
+  const [targets, values, payloads, predecessor, salt] = args
+
+  let calls: TimelockCall[]
+  if (name === 'schedule' || name === 'execute') {
+    calls = [{ target: targets, value: values, data: payloads }]
+  } else if (name === 'scheduleBatch' || name === 'executeBatch') {
+    calls = targets.map((target: string, i: number) => ({ target, value: values[i], data: payloads[i] }))
+  } else {
+    throw `Unsupported TimelockController call ${name}`
+  }
+
+  return { id: operationId(calls, predecessor, salt), calls, predecessor, salt }
+}
+
+/**
+ * Rebuilds a scheduled operation from the transaction that scheduled it
+ * @dev The salt is not emitted on schedule, so the operation is recovered from the scheduling calldata. This also
+ *      works when the timelock was called through another contract (e.g. a multisig), as long as the calldata is
+ *      passed through unmodified.
+ */
+export async function fetchScheduledOperation(timelock: TimelockController, id: string): Promise<TimelockOperation> {
+  const [event] = await timelock.queryFilter(timelock.filters.CallScheduled(id))
+  if (event === undefined) throw `Operation ${id} was never scheduled`
+
+  const { data } = await timelock.provider.getTransaction(event.transactionHash)
+  const selectors = [timelock.interface.getSighash('schedule'), timelock.interface.getSighash('scheduleBatch')].map(
+    selector => selector.substring(2),
+  )
+
+  for (let offset = 2; offset < data.length; offset += 2) {
+    if (!selectors.includes(data.substring(offset, offset + 8))) continue
+    try {
+      const operation = decodeTimelockCalldata(timelock, `0x${data.substring(offset)}`)
+      if (operation.id === id) return operation
+    } catch {
+      // Not a timelock call, keep scanning
+    }
+  }
+  throw `Could not recover operation ${id} from transaction ${event.transactionHash}`
+}
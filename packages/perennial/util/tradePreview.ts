@@ -0,0 +1,170 @@
+import { BigNumber, constants } from 'ethers'
+import { IPerennialLens, IProduct, IProduct__factory } from '../types/generated'
+import { Fixed18Math, UFixed18Math } from '../../common/testutil/fixed'
+import { fundingRate, Position, socializationFactor, UtilizationCurve } from './settlementEngine'
+import { decodeError, describeError } from './errors'
+
+const HOUR = 60 * 60
+
+export type TradeSide = 'make' | 'take'
+
+/**
+ * Product and account state a trade is quoted against, all as of the latest settled version
+ * @dev `price` is the latest version's price with the payoff applied, which `Product` charges position fees at
+ */
+export interface TradeInputs {
+  side: TradeSide
+  amount: BigNumber
+  price: BigNumber
+  makerFee: BigNumber
+  takerFee: BigNumber
+  positionFee: BigNumber
+  makerLimit: BigNumber
+  utilizationCurve: UtilizationCurve
+  // Global position once the pending position settles
+  position: Position
+  // Account position once its pending position settles
+  accountPosition: Position
+  collateral: BigNumber
+}
+
+export interface TradePreview {
+  // Fee deducted from the account's collateral when the position is opened
+  positionFee: BigNumber
+  // Share of `positionFee` kept by the protocol and product, the rest goes to the other side of the market
+  protocolPositionFee: BigNumber
+  collateral: BigNumber
+  accountPosition: Position
+  position: Position
+  // Maintenance required for `accountPosition`, filled in from the lens by `previewTrade`
+  maintenance?: BigNumber
+  makerLimitExceeded: boolean
+  insufficientLiquidity: boolean
+  insufficientCollateral?: boolean
+  // Name of the error the trade is expected to revert with, checked in the order `Product` checks them
+  expectedError?: string
+  hourlyFundingRate: BigNumber
+  hourlyFundingRateBefore: BigNumber
+}
+
+/**
+ * Quotes opening `amount` of `side` off-chain, mirroring the fee and invariants of `Product.openMakeFor` and
+ * `Product.openTakeFor`
+ * @dev The collateral check needs the maintenance of the new position, see `previewTrade`
+ */
+export function quoteTrade(inputs: TradeInputs): TradePreview {
+  const { side, amount, price, position, accountPosition } = inputs
+  const notional = Fixed18Math.abs(Fixed18Math.mul(amount, price))
+  const positionFee = UFixed18Math.mul(notional, side === 'make' ? inputs.makerFee : inputs.takerFee)
+
+  const delta = side === 'make' ? { maker: amount, taker: constants.Zero } : { maker: constants.Zero, taker: amount }
+  const nextPosition = add(position, delta)
+  const nextAccountPosition = add(accountPosition, delta)
+
+  const makerLimitExceeded = side === 'make' && nextPosition.maker.gt(inputs.makerLimit)
+  const insufficientLiquidity = side === 'take' && socializationFactor(nextPosition).lt(UFixed18Math.ONE)
+  const doubleSided = !nextAccountPosition.maker.isZero() && !nextAccountPosition.taker.isZero()
+
+  return {
+    positionFee,
+    protocolPositionFee: UFixed18Math.mul(positionFee, inputs.positionFee),
+    collateral: inputs.collateral.gt(positionFee) ? inputs.collateral.sub(positionFee) : constants.Zero,
+    accountPosition: nextAccountPosition,
+    position: nextPosition,
+    makerLimitExceeded,
+    insufficientLiquidity,
+    expectedError: doubleSided
+      ? 'ProductDoubleSidedError'
+      : makerLimitExceeded
+      ? 'ProductMakerOverLimitError'
+      : insufficientLiquidity
+      ? 'ProductInsufficientLiquidityError'
+      : undefined,
+    hourlyFundingRate: hourlyFundingRate(inputs.utilizationCurve, nextPosition),
+    hourlyFundingRateBefore: hourlyFundingRate(inputs.utilizationCurve, position),
+  }
+}
+
+/**
+ * Quotes opening `amount` of `side` in `product` for `account`, reading the product and account through the lens
+ */
+export async function previewTrade(
+  lens: IPerennialLens,
+  product: string,
+  account: string,
+  side: TradeSide,
+  amount: BigNumber,
+): Promise<TradePreview> {
+  const [snapshot, productSnapshot, protocolSnapshot, closed] = await Promise.all([
+    lens.callStatic['snapshot(address,address)'](account, product),
+    lens.callStatic['snapshot(address)'](product),
+    lens.callStatic['snapshot()'](),
+    IProduct__factory.connect(product, lens.provider).closed(),
+  ])
+  const { productInfo } = productSnapshot
+
+  const preview = quoteTrade({
+    side,
+    amount,
+    price: productSnapshot.latestVersion.price,
+    makerFee: productInfo.makerFee,
+    takerFee: productInfo.takerFee,
+    positionFee: productInfo.positionFee,
+    makerLimit: productInfo.makerLimit,
+    utilizationCurve: productInfo.utilizationCurve,
+    position: next(productSnapshot.position, productSnapshot.pre),
+    accountPosition: next(snapshot.position, snapshot.pre),
+    collateral: snapshot.collateral,
+  })
+
+  const { maker, taker } = preview.accountPosition
+  const maintenance = await lens.callStatic.maintenanceRequired(account, product, UFixed18Math.max(maker, taker))
+  // `Product` checks maintenance after the fee is charged and before its other invariants
+  const insufficientCollateral = maintenance.gt(preview.collateral)
+  const expectedError = protocolSnapshot.paused
+    ? 'PausedError'
+    : closed
+    ? 'ProductClosedError'
+    : snapshot.liquidating
+    ? 'ProductInLiquidationError'
+    : insufficientCollateral
+    ? 'ProductInsufficientCollateralError'
+    : preview.expectedError
+
+  return { ...preview, maintenance, insufficientCollateral, expectedError }
+}
+
+/**
+ * Runs the open through `callStatic` from `account`, returning the name of the error it reverts with, if any
+ */
+export async function simulateTrade(
+  product: IProduct,
+  account: string,
+  side: TradeSide,
+  amount: BigNumber,
+): Promise<string | undefined> {
+  // Calls through the provider, as a signer would reject a `from` other than its own
+  const caller = product.connect(product.provider)
+  try {
+    if (side === 'make') await caller.callStatic.openMakeFor(account, amount, { from: account })
+    else await caller.callStatic.openTakeFor(account, amount, { from: account })
+    return undefined
+  } catch (e) {
+    return decodeError(e)?.name ?? describeError(e)
+  }
+}
+
+function hourlyFundingRate(curve: UtilizationCurve, position: Position): BigNumber {
+  return Fixed18Math.mul(fundingRate(curve, position), Fixed18Math.from(HOUR))
+}
+
+function next(position: Position, pre: { openPosition: Position; closePosition: Position }): Position {
+  return {
+    maker: position.maker.add(pre.openPosition.maker).sub(pre.closePosition.maker),
+    taker: position.taker.add(pre.openPosition.taker).sub(pre.closePosition.taker),
+  }
+}
+
+function add(a: Position, b: Position): Position {
+  return { maker: a.maker.add(b.maker), taker: a.taker.add(b.taker) }
+}
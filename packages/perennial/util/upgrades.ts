@@ -0,0 +1,89 @@
+import { existsSync } from 'fs'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+import { utils } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { TimelockAction, TimelockContracts } from './timelock'
+
+export const UPGRADE_TARGETS = ['Collateral', 'Controller', 'Incentivizer', 'MultiInvoker', 'Product'] as const
+
+export type UpgradeTarget = (typeof UPGRADE_TARGETS)[number]
+
+export function isUpgradeTarget(target: string): target is UpgradeTarget {
+  return (UPGRADE_TARGETS as readonly string[]).includes(target)
+}
+
+/**
+ * Timelock action that points `target` at `implementation`
+ * @dev Products share the UpgradeableBeacon, every other target is a TransparentUpgradeableProxy under ProxyAdmin
+ */
+export function upgradeAction(target: UpgradeTarget, implementation: string): TimelockAction {
+  if (target === 'Product') return { action: 'upgradeBeacon', implementation }
+  return { action: 'upgrade', proxy: `${target}_Proxy`, implementation }
+}
+
+/**
+ * Reads the implementation `target` currently points at, along with the owner allowed to upgrade it
+ */
+export async function currentImplementation(
+  target: UpgradeTarget,
+  contracts: TimelockContracts,
+): Promise<{ implementation: string; owner: string }> {
+  const { proxyAdmin, productBeacon, resolveAddress } = contracts
+  if (target === 'Product')
+    return { implementation: await productBeacon.implementation(), owner: await productBeacon.owner() }
+
+  return {
+    implementation: await proxyAdmin.getProxyImplementation(await resolveAddress(`${target}_Proxy`)),
+    owner: await proxyAdmin.owner(),
+  }
+}
+
+/**
+ * Fork rehearsal of an upgrade that passed its snapshot verification
+ * @dev Identifies the build by the hash of its creation bytecode and constructor arguments, so rebuilding or changing
+ *      the arguments requires a new rehearsal
+ */
+export interface UpgradeRehearsal {
+  target: UpgradeTarget
+  network: string
+  buildHash: string
+  block: number
+}
+
+export async function upgradeBuildHash(
+  HRE: HardhatRuntimeEnvironment,
+  target: UpgradeTarget,
+  args: unknown[],
+): Promise<string> {
+  const { bytecode } = await HRE.artifacts.readArtifact(target)
+  return utils.id(JSON.stringify({ bytecode, args }))
+}
+
+function upgradeRehearsalPath(HRE: HardhatRuntimeEnvironment, network: string, target: UpgradeTarget): string {
+  return join(HRE.config.paths.cache, 'upgrades', `${network}-${target}.json`)
+}
+
+export async function recordUpgradeRehearsal(
+  HRE: HardhatRuntimeEnvironment,
+  rehearsal: UpgradeRehearsal,
+): Promise<void> {
+  const path = upgradeRehearsalPath(HRE, rehearsal.network, rehearsal.target)
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, JSON.stringify(rehearsal, null, 2))
+}
+
+/**
+ * Reads the passing fork rehearsal of upgrading `target` on `network` to the build `buildHash`, if any
+ */
+export async function findUpgradeRehearsal(
+  HRE: HardhatRuntimeEnvironment,
+  network: string,
+  target: UpgradeTarget,
+  buildHash: string,
+): Promise<UpgradeRehearsal | undefined> {
+  const path = upgradeRehearsalPath(HRE, network, target)
+  if (!existsSync(path)) return undefined
+  const rehearsal: UpgradeRehearsal = JSON.parse(await readFile(path, 'utf-8'))
+  return rehearsal.buildHash === buildHash ? rehearsal : undefined
+}